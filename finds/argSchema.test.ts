@@ -0,0 +1,67 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { type ArgSchema, checkArgs, formatArgErrors } from "./argSchema";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const suggest = (names: readonly string[], query: string) => names.filter(n => query.toLowerCase().includes(n.toLowerCase()) || n.toLowerCase().startsWith(query.toLowerCase()));
+
+const SCHEMA: ArgSchema = {
+    properties: {
+        action: { type: "string", enum: ["find", "state", "call"] },
+        name: { type: "string" },
+        limit: { type: "integer" },
+        calls: { type: "array", items: { type: "object", properties: { tool: { type: "string" } }, required: ["tool"] } },
+        args: { type: "array", items: {} },
+    },
+    required: ["name"],
+};
+
+check("valid arguments pass through unchanged", () => {
+    const r = checkArgs({ action: "state", name: "UserStore", limit: 5 }, SCHEMA, suggest);
+    assert.deepStrictEqual(r.errors, []);
+    assert.deepStrictEqual(r.args, { action: "state", name: "UserStore", limit: 5 });
+});
+
+check("unknown properties get a did-you-mean and missing required ones are reported", () => {
+    const r = checkArgs({ storeName: "UserStore" }, SCHEMA, suggest);
+    assert.deepStrictEqual(r.errors, [
+        { path: "storeName", message: "unknown property", didYouMean: ["name"] },
+        { path: "name", message: "required" },
+    ]);
+    assert.strictEqual(formatArgErrors(r.errors), "storeName: unknown property (did you mean name?); name: required");
+});
+
+check("wrong types and enum values are reported per field, nested ones with their path", () => {
+    const r = checkArgs({ name: "x", action: "sta", limit: 2.5, calls: [{ tool: "a" }, {}] }, SCHEMA, suggest);
+    assert.deepStrictEqual(r.errors.map(e => e.path), ["action", "limit", "calls[1].tool"]);
+    assert.deepStrictEqual(r.errors[0].didYouMean, ["state"]);
+    assert.strictEqual(r.errors[1].message, "expected integer, got number");
+    assert.strictEqual(checkArgs([], SCHEMA, suggest).errors[0].message, "arguments must be an object, got array");
+});
+
+check("numeric ids and numeric strings are coerced losslessly", () => {
+    const r = checkArgs({ name: 12345, limit: "10" }, SCHEMA, suggest);
+    assert.deepStrictEqual(r.errors, []);
+    assert.deepStrictEqual(r.args, { name: "12345", limit: 10 });
+    assert.strictEqual(checkArgs({ name: "x", limit: "ten" }, SCHEMA, suggest).errors[0].message, "expected integer, got string");
+});
+
+check("untyped array items keep their values", () => {
+    const r = checkArgs({ name: "x", args: [1, true, { a: 1 }, "s"] }, SCHEMA, suggest);
+    assert.deepStrictEqual(r.errors, []);
+    assert.deepStrictEqual(r.args.args, [1, true, { a: 1 }, "s"]);
+});
+
+console.log(`\nall ${passed} checks passed`);
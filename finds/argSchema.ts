@@ -0,0 +1,101 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface ArgSchemaProperty {
+    readonly type?: string;
+    readonly enum?: readonly unknown[];
+    readonly items?: ArgSchemaProperty;
+    readonly properties?: Readonly<Record<string, ArgSchemaProperty>>;
+    readonly required?: readonly string[];
+}
+
+export interface ArgSchema {
+    readonly properties: Readonly<Record<string, ArgSchemaProperty>>;
+    readonly required?: readonly string[];
+}
+
+export interface ArgError {
+    readonly path: string;
+    readonly message: string;
+    readonly didYouMean?: readonly string[];
+}
+
+export interface ArgCheck {
+    readonly args: Record<string, unknown>;
+    readonly errors: readonly ArgError[];
+}
+
+export type Suggest = (names: readonly string[], query: string) => string[];
+
+const NUMERIC_RE = /^-?\d+(?:\.\d+)?$/;
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function coerce(value: unknown, type: string | undefined): unknown {
+    if (type === "string" && typeof value === "number" && Number.isFinite(value)) return String(value);
+    if ((type === "number" || type === "integer") && typeof value === "string" && NUMERIC_RE.test(value)) return Number(value);
+    return value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case "integer": return Number.isInteger(value);
+        case "number": return typeof value === "number" && Number.isFinite(value);
+        case "object": return typeOf(value) === "object";
+        default: return typeOf(value) === type;
+    }
+}
+
+function checkValue(value: unknown, schema: ArgSchemaProperty, path: string, suggest: Suggest, errors: ArgError[]): unknown {
+    const v = coerce(value, schema.type);
+    if (schema.type && !matchesType(v, schema.type)) {
+        errors.push({ path, message: `expected ${schema.type}, got ${typeOf(v)}` });
+        return v;
+    }
+    if (schema.enum && !schema.enum.includes(v)) {
+        const options = schema.enum.filter((o): o is string => typeof o === "string");
+        const didYouMean = typeof v === "string" ? suggest(options, v) : [];
+        errors.push({ path, message: `must be one of ${schema.enum.map(o => JSON.stringify(o)).join(", ")}`, ...(didYouMean.length && { didYouMean }) });
+        return v;
+    }
+    if (Array.isArray(v) && schema.items) return v.map((item, i) => checkValue(item, schema.items!, `${path}[${i}]`, suggest, errors));
+    if (schema.type === "object" && schema.properties) {
+        const obj = { ...(v as Record<string, unknown>) };
+        for (const key of schema.required ?? []) if (obj[key] === undefined) errors.push({ path: `${path}.${key}`, message: "required" });
+        for (const [key, prop] of Object.entries(schema.properties)) {
+            if (obj[key] !== undefined) obj[key] = checkValue(obj[key], prop, `${path}.${key}`, suggest, errors);
+        }
+        return obj;
+    }
+    return v;
+}
+
+export function checkArgs(args: unknown, schema: ArgSchema, suggest: Suggest): ArgCheck {
+    if (typeOf(args) !== "object") return { args: {}, errors: [{ path: "", message: `arguments must be an object, got ${typeOf(args)}` }] };
+
+    const errors: ArgError[] = [];
+    const out: Record<string, unknown> = {};
+    const known = Object.keys(schema.properties);
+    for (const [key, value] of Object.entries(args as Record<string, unknown>)) {
+        const prop = schema.properties[key];
+        if (!prop) {
+            const didYouMean = suggest(known, key);
+            errors.push({ path: key, message: "unknown property", ...(didYouMean.length && { didYouMean }) });
+            continue;
+        }
+        out[key] = value === undefined ? value : checkValue(value, prop, key, suggest, errors);
+    }
+    for (const key of schema.required ?? []) if (out[key] === undefined) errors.push({ path: key, message: "required" });
+    return { args: out, errors };
+}
+
+export function formatArgErrors(errors: readonly ArgError[]): string {
+    return errors.map(e => `${e.path || "arguments"}: ${e.message}${e.didYouMean?.length ? ` (did you mean ${e.didYouMean.join(" or ")}?)` : ""}`).join("; ");
+}
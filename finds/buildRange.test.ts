@@ -0,0 +1,55 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { classifyRange, effectiveRange, inBuildRange, isObsolete, patchInBuild } from "./buildRange";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+check("effectiveRange intersects the patch and replacement ranges", () => {
+    assert.deepStrictEqual(effectiveRange({ fromBuild: 100 }, { fromBuild: 120, toBuild: 200 }), { fromBuild: 120, toBuild: 200 });
+    assert.deepStrictEqual(effectiveRange({ toBuild: 150 }, { toBuild: 200 }), { toBuild: 150 });
+    assert.deepStrictEqual(effectiveRange({}), {});
+});
+
+check("inBuildRange uses inclusive bounds and passes when the build is unknown", () => {
+    assert.ok(inBuildRange({ fromBuild: 100, toBuild: 200 }, 100));
+    assert.ok(inBuildRange({ fromBuild: 100, toBuild: 200 }, 200));
+    assert.ok(!inBuildRange({ fromBuild: 100 }, 99));
+    assert.ok(!inBuildRange({ toBuild: 200 }, 201));
+    assert.ok(inBuildRange({ toBuild: 1 }, null));
+});
+
+check("classifyRange separates expected-dead from still-matching replacements", () => {
+    assert.strictEqual(classifyRange({}, 150, false), null);
+    assert.strictEqual(classifyRange({ toBuild: 200 }, null, false), null);
+    assert.strictEqual(classifyRange({ toBuild: 200 }, 150, false), "inRange");
+    assert.strictEqual(classifyRange({ toBuild: 100 }, 150, false), "outOfRangeExpectedDead");
+    assert.strictEqual(classifyRange({ fromBuild: 200 }, 150, true), "outOfRangeStillMatching");
+});
+
+check("isObsolete flags only ranges whose upper bound has passed", () => {
+    assert.ok(isObsolete({ toBuild: 100 }, 101));
+    assert.ok(!isObsolete({ toBuild: 100 }, 100));
+    assert.ok(!isObsolete({ fromBuild: 200 }, 150));
+    assert.ok(!isObsolete({ toBuild: 100 }, null));
+});
+
+check("patchInBuild needs the patch and at least one replacement in range", () => {
+    assert.ok(patchInBuild({ replacement: {} }, 150));
+    assert.ok(!patchInBuild({ toBuild: 100, replacement: {} }, 150));
+    assert.ok(!patchInBuild({ replacement: [{ toBuild: 100 }, { fromBuild: 200 }] }, 150));
+    assert.ok(patchInBuild({ replacement: [{ toBuild: 100 }, { fromBuild: 120 }] }, 150));
+    assert.ok(!patchInBuild({ fromBuild: 160, replacement: [{ fromBuild: 120 }] }, 150));
+});
+
+console.log(`\nall ${passed} checks passed`);
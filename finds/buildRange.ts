@@ -0,0 +1,42 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface BuildRange {
+    readonly fromBuild?: number;
+    readonly toBuild?: number;
+}
+
+export type RangeStatus = "inRange" | "outOfRangeExpectedDead" | "outOfRangeStillMatching";
+
+export function hasRange(range: BuildRange): boolean {
+    return range.fromBuild != null || range.toBuild != null;
+}
+
+export function effectiveRange(patch: BuildRange, replacement: BuildRange = {}): BuildRange {
+    const from = [patch.fromBuild, replacement.fromBuild].filter((n): n is number => n != null);
+    const to = [patch.toBuild, replacement.toBuild].filter((n): n is number => n != null);
+    return { ...(from.length && { fromBuild: Math.max(...from) }), ...(to.length && { toBuild: Math.min(...to) }) };
+}
+
+export function inBuildRange(range: BuildRange, build: number | null): boolean {
+    if (build == null) return true;
+    return (range.fromBuild == null || build >= range.fromBuild) && (range.toBuild == null || build <= range.toBuild);
+}
+
+export function classifyRange(range: BuildRange, build: number | null, matched: boolean): RangeStatus | null {
+    if (!hasRange(range) || build == null) return null;
+    if (inBuildRange(range, build)) return "inRange";
+    return matched ? "outOfRangeStillMatching" : "outOfRangeExpectedDead";
+}
+
+export function isObsolete(range: BuildRange, build: number | null): boolean {
+    return build != null && range.toBuild != null && build > range.toBuild;
+}
+
+export function patchInBuild(patch: BuildRange & { readonly replacement: BuildRange | readonly BuildRange[] }, build: number | null): boolean {
+    const replacements: readonly BuildRange[] = Array.isArray(patch.replacement) ? patch.replacement : [patch.replacement];
+    return inBuildRange(patch, build) && replacements.some(r => inBuildRange(effectiveRange(patch, r), build));
+}
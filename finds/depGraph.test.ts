@@ -0,0 +1,44 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { bfsPath, neighborhood, reverseEdges } from "./depGraph";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const FORWARD = new Map([["a", ["b", "c"]], ["b", ["d"]], ["c", ["d"]], ["d", ["e"]]]);
+
+check("reverseEdges lists every importer of a module", () => {
+    const reverse = reverseEdges(FORWARD);
+    assert.deepStrictEqual(reverse.get("d"), ["b", "c"]);
+    assert.deepStrictEqual(reverse.get("e"), ["d"]);
+    assert.strictEqual(reverse.get("a"), undefined);
+});
+
+check("bfsPath finds the shortest chain and respects maxDepth", () => {
+    assert.deepStrictEqual(bfsPath(FORWARD, "a", "e", 12), ["a", "b", "d", "e"]);
+    assert.deepStrictEqual(bfsPath(FORWARD, "a", "a", 1), ["a"]);
+    assert.strictEqual(bfsPath(FORWARD, "a", "e", 2), null);
+    assert.strictEqual(bfsPath(FORWARD, "e", "a", 12), null);
+});
+
+check("neighborhood grows both directions until the budget", () => {
+    const full = neighborhood(FORWARD, reverseEdges(FORWARD), "d", 10);
+    assert.deepStrictEqual(full.nodes.sort(), ["a", "b", "c", "d", "e"]);
+    assert.strictEqual(full.edges.length, 5);
+    assert.strictEqual(full.truncated, false);
+    const capped = neighborhood(FORWARD, reverseEdges(FORWARD), "d", 2);
+    assert.deepStrictEqual(capped.nodes, ["d", "e"]);
+    assert.deepStrictEqual(capped.edges, [["d", "e"]]);
+});
+
+console.log(`\nall ${passed} checks passed`);
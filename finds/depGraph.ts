@@ -0,0 +1,45 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type Edges = ReadonlyMap<string, readonly string[]>;
+
+export function reverseEdges(forward: Edges): Map<string, string[]> {
+    const reverse = new Map<string, string[]>();
+    for (const [id, deps] of forward) for (const d of deps) reverse.get(d)?.push(id) ?? reverse.set(d, [id]);
+    return reverse;
+}
+
+export function bfsPath(graph: Edges, from: string, to: string, maxDepth: number): string[] | null {
+    if (from === to) return [from];
+    const queue: string[][] = [[from]];
+    const seen = new Set<string>([from]);
+    for (let i = 0; i < queue.length; i++) {
+        const path = queue[i];
+        if (path.length > maxDepth) break;
+        for (const next of graph.get(path[path.length - 1]) ?? []) {
+            if (seen.has(next)) continue;
+            const extended = [...path, next];
+            if (next === to) return extended;
+            seen.add(next);
+            queue.push(extended);
+        }
+    }
+    return null;
+}
+
+export function neighborhood(forward: Edges, reverse: Edges, id: string, budget: number): { nodes: string[]; edges: Array<[string, string]>; truncated: boolean } {
+    const nodes = new Set<string>([id]);
+    const queue: string[] = [id];
+    while (queue.length && nodes.size < budget) {
+        const cur = queue.shift()!;
+        for (const n of [...(forward.get(cur) ?? []), ...(reverse.get(cur) ?? [])]) {
+            if (!nodes.has(n) && nodes.size < budget) { nodes.add(n); queue.push(n); }
+        }
+    }
+    const edges: Array<[string, string]> = [];
+    for (const n of nodes) for (const d of forward.get(n) ?? []) if (nodes.has(d)) edges.push([n, d]);
+    return { nodes: [...nodes], edges, truncated: queue.length > 0 };
+}
@@ -0,0 +1,58 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { type FindCorpus, rankFinds } from "./findRanking";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const fixture = readFileSync(join(here, "__fixtures__", "module-96782.txt"), "utf8");
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+function corpusOf(sources: readonly string[]): FindCorpus & { fragments: string[] } {
+    const count = (test: (s: string) => boolean, earlyExit: number) => Math.min(sources.filter(test).length, earlyExit);
+    const fragments: string[] = [];
+    return {
+        fragments,
+        keyOf: () => null,
+        countFinds: (finds, earlyExit) => new Map(finds.map(f => [f, count(s => s.includes(f), earlyExit)])),
+        countRegex: (regex, earlyExit) => count(s => regex.test(s), earlyExit),
+        countFragment(fragment, earlyExit) {
+            fragments.push(fragment);
+            return count(s => s.includes(fragment), earlyExit);
+        },
+    };
+}
+
+check("finds are counted against the corpus and ranked by confidence", () => {
+    const corpus = corpusOf([fixture]);
+    const ranked = rankFinds(fixture, corpus, { minScore: 6, limit: 10 });
+    assert.ok(ranked.finds.length > 0 && ranked.finds.length <= 10);
+    assert.ok(ranked.uniqueCount > 0);
+    for (let i = 1; i < ranked.finds.length; i++) assert.ok(ranked.finds[i - 1].confidence >= ranked.finds[i].confidence);
+    assert.ok(ranked.finds.every(f => f.unique === (f.moduleCount === 1)));
+    assert.ok(ranked.finds.some(f => f.margin), "top unique finds carry a margin");
+    assert.ok(corpus.fragments.length > 0);
+});
+
+check("a corpus where every find repeats yields no unique finds, and requireUnique then returns none", () => {
+    const corpus = corpusOf([fixture, fixture]);
+    const all = rankFinds(fixture, corpus, { minScore: 6, limit: 10 });
+    assert.strictEqual(all.uniqueCount, 0);
+    assert.ok(all.finds.every(f => f.moduleCount === 2 && !f.margin));
+    assert.deepStrictEqual(rankFinds(fixture, corpus, { minScore: 6, limit: 10, requireUnique: true }).finds, []);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,110 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { type AnchorConfidence, type AnchorSignals, scoreAnchorConfidence } from "./anchorConfidence";
+import { type DurabilityTier } from "./durability";
+import { generateFinds } from "./genFinds";
+import { expandIi, generateTokenFinds } from "./tokenFinds";
+import { analyzeUniquenessMargin, type UniquenessMargin } from "./uniquenessMargin";
+
+export interface FindCorpus {
+    keyOf(hash: string): string | null;
+    countFinds(finds: readonly string[], earlyExit: number): ReadonlyMap<string, number>;
+    countRegex(regex: RegExp, earlyExit: number): number;
+    countFragment(fragment: string, earlyExit: number): number;
+}
+
+export interface RankFindsOptions {
+    readonly minScore: number;
+    readonly limit: number;
+    readonly requireUnique?: boolean;
+}
+
+export interface CountedFind {
+    readonly find: string;
+    readonly type: AnchorSignals["type"];
+    readonly tier: DurabilityTier;
+    readonly score: number;
+    readonly durability: number;
+    readonly unique: boolean;
+    readonly moduleCount: number;
+    readonly reason: string;
+    readonly regex: boolean;
+}
+
+export interface RankedFind extends CountedFind {
+    readonly margin?: UniquenessMargin;
+    readonly confidence: number;
+    readonly band: AnchorConfidence["band"];
+    readonly confidenceReasons: readonly string[];
+}
+
+export interface RankedFinds {
+    readonly candidateCount: number;
+    readonly uniqueCount: number;
+    readonly finds: RankedFind[];
+}
+
+const COUNT_EARLY_EXIT = 10;
+const MARGIN_EARLY_EXIT = 12;
+const MIN_CANDIDATES = 100;
+const PAIR_CANDIDATES = 500;
+const MAX_TOKEN_ANCHORS = 12;
+const MARGIN_BUDGET = 6;
+
+const signalsOf = (f: CountedFind): AnchorSignals => ({ durability: f.durability, moduleCount: f.moduleCount, type: f.type, regex: f.regex });
+
+function tryRegex(source: string): RegExp | null {
+    try { return new RegExp(source); } catch { return null; }
+}
+
+export function rankFinds(source: string, corpus: FindCorpus, opts: RankFindsOptions): RankedFinds {
+    const hashToKey = (hash: string) => corpus.keyOf(hash);
+    const candidates = generateFinds(source, { hashToKey, minScore: opts.minScore, limit: Math.max(opts.limit, MIN_CANDIDATES) });
+    const counts = corpus.countFinds(candidates.map(c => c.find), COUNT_EARLY_EXIT);
+
+    const seen = new Set<string>();
+    const finds: CountedFind[] = [];
+    const push = (c: { find: string; tier: DurabilityTier; score: number; durability: number; reasons: readonly string[] }, type: AnchorSignals["type"], moduleCount: number, regex: boolean) => {
+        seen.add(c.find);
+        finds.push({ find: c.find, type, tier: c.tier, score: c.score, durability: c.durability, unique: moduleCount === 1, moduleCount, reason: c.reasons[0], regex });
+    };
+
+    for (const c of candidates) push(c, c.type, counts.get(c.find) ?? 0, false);
+
+    for (const tc of generateTokenFinds(source, { limit: MAX_TOKEN_ANCHORS })) {
+        if (seen.has(tc.find)) continue;
+        const re = tryRegex(expandIi(tc.find));
+        if (re) push(tc, "token", corpus.countRegex(re, COUNT_EARLY_EXIT), true);
+    }
+
+    if (!finds.some(f => f.unique)) {
+        for (const c of generateFinds(source, { hashToKey, minScore: opts.minScore, limit: PAIR_CANDIDATES, synthesizePairs: true })) {
+            if (c.type !== "pair" || seen.has(c.find)) continue;
+            const re = tryRegex(c.find);
+            if (re) push(c, c.type, corpus.countRegex(re, COUNT_EARLY_EXIT), true);
+        }
+    }
+
+    const kept = opts.requireUnique ? finds.filter(f => f.unique) : finds;
+    const ranked = kept
+        .map(f => ({ f, base: scoreAnchorConfidence(signalsOf(f)).confidence }))
+        .sort((a, b) => b.base - a.base || b.f.durability - a.f.durability || b.f.score - a.f.score);
+
+    let marginBudget = MARGIN_BUDGET;
+    const out = ranked.slice(0, opts.limit).map(({ f }): RankedFind => {
+        let margin: UniquenessMargin | undefined;
+        if (f.unique && marginBudget > 0 && f.type !== "intl") {
+            marginBudget--;
+            margin = analyzeUniquenessMargin(f.find, f.regex, frag => corpus.countFragment(frag, MARGIN_EARLY_EXIT));
+        }
+        const conf = scoreAnchorConfidence({ ...signalsOf(f), marginStrength: margin?.strength, minFragmentMatches: margin?.minFragmentMatches });
+        return { ...f, ...(margin ? { margin } : {}), confidence: conf.confidence, band: conf.band, confidenceReasons: conf.reasons };
+    });
+    out.sort((a, b) => b.confidence - a.confidence);
+
+    return { candidateCount: candidates.length, uniqueCount: finds.filter(f => f.unique).length, finds: out };
+}
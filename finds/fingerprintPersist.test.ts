@@ -0,0 +1,79 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { matchAcrossBuilds } from "./buildDelta";
+import { isBuildKey, parseFingerprints, serializeFingerprints } from "./fingerprintPersist";
+import { fingerprintModule } from "./moduleFingerprint";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const SETTINGS = "0,function(e,t,n){n.d(t,{Z:()=>a});let a=()=>r.t.aB3xZ9+r.t[\"Qw7pL2\"]+\"UserSettingsStore\"+\"Something went wrong loading settings\"}";
+const CHANNEL = "0,function(e,t,n){let a=r.t.Zz9yY8+\"ChannelStore\"+\"container_a1b2c3 wrapper_d4e5f6\"}";
+const EMPTY = "0,function(e,t,n){n.d(t,{Z:()=>a});let a=1}";
+
+check("round-trips fingerprints through serialize/parse", () => {
+    const modules = [{ id: "123", fp: fingerprintModule(SETTINGS) }, { id: "456", fp: fingerprintModule(CHANNEL) }];
+    const set = parseFingerprints(serializeFingerprints("abc123def", modules, 42));
+    assert.ok(set);
+    assert.strictEqual(set.build, "abc123def");
+    assert.strictEqual(set.savedAt, 42);
+    assert.deepStrictEqual(set.modules, modules);
+});
+
+check("landmark-free modules are not persisted", () => {
+    const set = parseFingerprints(serializeFingerprints("b", [{ id: "1", fp: fingerprintModule(EMPTY) }, { id: "2", fp: fingerprintModule(CHANNEL) }]));
+    assert.deepStrictEqual(set?.modules.map(m => m.id), ["2"]);
+});
+
+check("restored sets feed matchAcrossBuilds across renumbered ids", () => {
+    const prev = parseFingerprints(serializeFingerprints("old", [{ id: "100", fp: fingerprintModule(SETTINGS) }, { id: "200", fp: fingerprintModule(CHANNEL) }]))!;
+    const delta = matchAcrossBuilds(prev.modules, [{ id: "900", fp: fingerprintModule(CHANNEL) }, { id: "800", fp: fingerprintModule(SETTINGS) }]);
+    assert.deepStrictEqual(delta.matched.map(m => [m.prevId, m.currId]).sort(), [["100", "800"], ["200", "900"]]);
+    assert.deepStrictEqual(delta.added, []);
+    assert.deepStrictEqual(delta.removed, []);
+});
+
+check("garbage and wrong versions are rejected without throwing", () => {
+    assert.strictEqual(parseFingerprints("not json"), null);
+    assert.strictEqual(parseFingerprints("[]"), null);
+    assert.strictEqual(parseFingerprints(JSON.stringify({ v: 99, build: "b", modules: {} })), null);
+    assert.strictEqual(parseFingerprints(JSON.stringify({ v: 1, build: "../etc", modules: {} })), null);
+});
+
+check("malformed module entries are dropped, valid ones kept", () => {
+    const set = parseFingerprints(JSON.stringify({
+        v: 1,
+        build: "b",
+        savedAt: "yesterday",
+        modules: {
+            "1": [["aB3xZ9"], [], [], []],
+            "2": [["aB3xZ9"], [], []],
+            "3": [[1], [], [], []],
+            "bad id!": [["aB3xZ9"], [], [], []],
+        },
+    }));
+    assert.ok(set);
+    assert.strictEqual(set.savedAt, 0);
+    assert.deepStrictEqual(set.modules.map(m => m.id), ["1"]);
+    assert.strictEqual(set.modules[0].fp.landmarkCount, 1);
+});
+
+check("build keys are restricted to safe file-name characters", () => {
+    assert.ok(isBuildKey("3f2a9c1d0b"));
+    assert.ok(isBuildKey("canary-12345.abc"));
+    assert.ok(!isBuildKey("../../x"));
+    assert.ok(!isBuildKey(""));
+    assert.ok(!isBuildKey(null));
+});
+
+console.log(`\nall ${passed} checks passed`);
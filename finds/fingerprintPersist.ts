@@ -0,0 +1,79 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { FingerprintedModule } from "./buildDelta";
+import type { ModuleFingerprint } from "./moduleFingerprint";
+
+export const FINGERPRINT_FORMAT_VERSION = 1;
+export const MAX_PERSISTED_MODULES = 60_000;
+
+const MAX_PER_SET = 40;
+const MAX_VALUE_LEN = 200;
+const MODULE_ID_RE = /^[\w-]{1,32}$/;
+const BUILD_KEY_RE = /^[\w.-]{1,80}$/;
+
+type PackedFingerprint = readonly [intl: readonly string[], stores: readonly string[], errors: readonly string[], css: readonly string[]];
+
+export interface FingerprintSet {
+    readonly build: string;
+    readonly savedAt: number;
+    readonly modules: readonly FingerprintedModule[];
+}
+
+export function isBuildKey(build: unknown): build is string {
+    return typeof build === "string" && BUILD_KEY_RE.test(build);
+}
+
+function pack(fp: ModuleFingerprint): PackedFingerprint {
+    return [fp.intlHashes, fp.storeNames, fp.errorStrings, fp.cssHashes];
+}
+
+function unpackSet(raw: unknown): string[] | null {
+    if (!Array.isArray(raw) || raw.length > MAX_PER_SET) return null;
+    if (!raw.every(v => typeof v === "string" && v.length <= MAX_VALUE_LEN)) return null;
+    return raw;
+}
+
+function unpack(raw: unknown): ModuleFingerprint | null {
+    if (!Array.isArray(raw) || raw.length !== 4) return null;
+    const [intlHashes, storeNames, errorStrings, cssHashes] = raw.map(unpackSet);
+    if (!intlHashes || !storeNames || !errorStrings || !cssHashes) return null;
+    return {
+        intlHashes,
+        storeNames,
+        errorStrings,
+        cssHashes,
+        landmarkCount: intlHashes.length + storeNames.length + errorStrings.length + cssHashes.length
+    };
+}
+
+export function serializeFingerprints(build: string, modules: readonly FingerprintedModule[], savedAt: number = Date.now()): string {
+    const packed: Record<string, PackedFingerprint> = {};
+    let n = 0;
+    for (const { id, fp } of modules) {
+        if (n++ >= MAX_PERSISTED_MODULES) break;
+        if (fp.landmarkCount > 0) packed[id] = pack(fp);
+    }
+    return JSON.stringify({ v: FINGERPRINT_FORMAT_VERSION, build, savedAt, modules: packed });
+}
+
+export function parseFingerprints(text: string): FingerprintSet | null {
+    let raw: unknown;
+    try { raw = JSON.parse(text); } catch { return null; }
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+    const { v, build, savedAt, modules } = raw as Record<string, unknown>;
+    if (v !== FINGERPRINT_FORMAT_VERSION || !isBuildKey(build)) return null;
+    if (typeof modules !== "object" || modules === null || Array.isArray(modules)) return null;
+
+    const out: FingerprintedModule[] = [];
+    for (const [id, packed] of Object.entries(modules as Record<string, unknown>)) {
+        if (out.length >= MAX_PERSISTED_MODULES) break;
+        if (!MODULE_ID_RE.test(id)) continue;
+        const fp = unpack(packed);
+        if (fp) out.push({ id, fp });
+    }
+    return { build, savedAt: typeof savedAt === "number" && Number.isFinite(savedAt) ? savedAt : 0, modules: out };
+}
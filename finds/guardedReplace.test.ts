@@ -0,0 +1,54 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { guardedReplace } from "./guardedReplace";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+check("guardedReplace runs the function on the real match and records its output", () => {
+    const r = guardedReplace("a.foo(1),b.foo(2)", /(\w)\.foo\((\d)\)/g, (m: string, obj: unknown, n: unknown) => `${obj}.bar(${Number(n) * 2})`, 1000);
+    assert.strictEqual(r.output, "a.bar(2),b.bar(4)");
+    assert.strictEqual(r.calls, 2);
+    assert.strictEqual(r.produced, "a.bar(2)");
+    assert.strictEqual(r.matchIndex, 0);
+    assert.strictEqual(r.error, null);
+});
+
+check("guardedReplace finds the offset when the regex has named groups", () => {
+    const r = guardedReplace("xx;y=1", /(?<name>\w)=1/, (m: string, ...rest: unknown[]) => `${(rest[rest.length - 1] as { name: string }).name}=2`, 1000);
+    assert.strictEqual(r.output, "xx;y=2");
+    assert.strictEqual(r.matchIndex, 3);
+});
+
+check("guardedReplace catches throws and non-string results", () => {
+    const thrown = guardedReplace("abc", /b/, () => { throw new RangeError("boom"); }, 1000);
+    assert.strictEqual(thrown.output, null);
+    assert.strictEqual(thrown.error, "RangeError: boom");
+    assert.strictEqual(thrown.timedOut, false);
+    const wrongType = guardedReplace("abc", /b/, () => 42, 1000);
+    assert.strictEqual(wrongType.error, "TypeError: returned number instead of a string");
+});
+
+check("guardedReplace stops calling once the budget is spent", () => {
+    let t = 0;
+    const r = guardedReplace("aaaa", /a/g, m => { t += 10; return m; }, 15, () => t);
+    assert.strictEqual(r.calls, 2);
+    assert.strictEqual(r.timedOut, true);
+    assert.strictEqual(r.output, null);
+    let slow = 0;
+    const single = guardedReplace("a", /a/, m => { slow = 50; return m; }, 15, () => slow);
+    assert.strictEqual(single.output, "a");
+    assert.strictEqual(single.timedOut, true);
+});
+
+console.log(`\nall ${passed} checks passed`);
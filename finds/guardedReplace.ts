@@ -0,0 +1,48 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type ReplaceFn<A extends unknown[] = unknown[]> = (match: string, ...rest: A) => unknown;
+
+export interface GuardedReplaceResult {
+    readonly output: string | null;
+    readonly calls: number;
+    readonly produced: string | null;
+    readonly matchIndex: number | null;
+    readonly error: string | null;
+    readonly timedOut: boolean;
+}
+
+class BudgetExceeded extends Error {}
+
+const describe = (e: unknown) => e instanceof Error ? `${e.name}: ${e.message}` : `threw ${String(e)}`;
+
+export function guardedReplace<A extends unknown[]>(source: string, regex: RegExp, replace: ReplaceFn<A>, budgetMs: number, now: () => number = () => performance.now()): GuardedReplaceResult {
+    const start = now();
+    let calls = 0;
+    let produced: string | null = null;
+    let matchIndex: number | null = null;
+
+    const replacer = (match: string, ...rest: unknown[]) => {
+        if (now() - start > budgetMs) throw new BudgetExceeded(`exceeded the ${budgetMs} ms budget after ${calls} call(s)`);
+        calls++;
+        const out = replace(match, ...rest as A);
+        if (typeof out !== "string") throw new TypeError(`returned ${out === null ? "null" : typeof out} instead of a string`);
+        if (produced == null) {
+            produced = out;
+            matchIndex = (rest.find(a => typeof a === "number") as number | undefined) ?? null;
+        }
+        return out;
+    };
+
+    regex.lastIndex = 0;
+    try {
+        const output = source.replace(regex, replacer);
+        const timedOut = now() - start > budgetMs;
+        return { output, calls, produced, matchIndex, error: timedOut ? `exceeded the ${budgetMs} ms budget` : null, timedOut };
+    } catch (e) {
+        return { output: null, calls, produced, matchIndex, error: e instanceof BudgetExceeded ? e.message : describe(e), timedOut: e instanceof BudgetExceeded };
+    }
+}
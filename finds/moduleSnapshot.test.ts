@@ -0,0 +1,72 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { parseSnapshot, serializeSnapshot } from "./moduleSnapshot";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const SNAPSHOT = {
+    build: "abc123def",
+    savedAt: 42,
+    buildInfo: { releaseChannel: "canary", buildId: null, apiVersion: 9 },
+    sources: new Map([["100", "0,function(e,t,n){n(200)}"], ["200", "0,function(e,t,n){let a=r.t.aB3xZ9}"]]),
+    hints: new Map([["200", "UserSettingsStore (store)"]]),
+    imports: new Map([["100", ["200"]]]),
+    intlKeys: new Map([["aB3xZ9", "USER_SETTINGS"]]),
+    intlMessages: new Map([["aB3xZ9", "User Settings"]]),
+};
+
+check("round-trips every section through serialize/parse", () => {
+    const snap = parseSnapshot(serializeSnapshot(SNAPSHOT));
+    assert.ok(snap);
+    assert.strictEqual(snap.build, "abc123def");
+    assert.strictEqual(snap.savedAt, 42);
+    assert.deepStrictEqual(snap.buildInfo, SNAPSHOT.buildInfo);
+    assert.deepStrictEqual(snap.sources, SNAPSHOT.sources);
+    assert.deepStrictEqual(snap.hints, SNAPSHOT.hints);
+    assert.deepStrictEqual(snap.imports, SNAPSHOT.imports);
+    assert.deepStrictEqual(snap.intlKeys, SNAPSHOT.intlKeys);
+    assert.deepStrictEqual(snap.intlMessages, SNAPSHOT.intlMessages);
+});
+
+check("garbage, wrong versions and unsafe build keys are rejected without throwing", () => {
+    assert.strictEqual(parseSnapshot("not json"), null);
+    assert.strictEqual(parseSnapshot("[]"), null);
+    assert.strictEqual(parseSnapshot(JSON.stringify({ v: 99, build: "b", sources: {} })), null);
+    assert.strictEqual(parseSnapshot(JSON.stringify({ v: 1, build: "../etc", sources: {} })), null);
+    assert.strictEqual(parseSnapshot(JSON.stringify({ v: 1, build: "b" })), null);
+});
+
+check("malformed entries are dropped, valid ones kept", () => {
+    const snap = parseSnapshot(JSON.stringify({
+        v: 1,
+        build: "b",
+        savedAt: "yesterday",
+        buildInfo: { channel: "stable", nested: { x: 1 } },
+        sources: { "1": "0,function(){}", "bad id!": "0,function(){}", "2": 5 },
+        hints: { "1": "ok", "3": "orphan" },
+        imports: { "1": ["2", "../x"] },
+        intlKeys: { aB3xZ9: "VALID_KEY", short: "X", Zz9yY8: "lower_case" },
+        intlMessages: { aB3xZ9: "Hello", "toolong": "x" },
+    }));
+    assert.ok(snap);
+    assert.strictEqual(snap.savedAt, 0);
+    assert.deepStrictEqual(snap.buildInfo, { channel: "stable" });
+    assert.deepStrictEqual([...snap.sources.keys()], ["1"]);
+    assert.deepStrictEqual([...snap.hints.keys()], ["1"]);
+    assert.strictEqual(snap.imports.size, 0);
+    assert.deepStrictEqual([...snap.intlKeys], [["aB3xZ9", "VALID_KEY"]]);
+    assert.deepStrictEqual([...snap.intlMessages.keys()], ["aB3xZ9"]);
+});
+
+console.log(`\nall ${passed} checks passed`);
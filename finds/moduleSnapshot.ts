@@ -0,0 +1,107 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+export const MAX_SNAPSHOT_MODULES = 120_000;
+
+const MAX_SOURCE_LEN = 16_000_000;
+const MAX_HINT_LEN = 200;
+const MAX_DEPS = 2_000;
+const MODULE_ID_RE = /^[\w-]{1,32}$/;
+const BUILD_KEY_RE = /^[\w.-]{1,80}$/;
+const INTL_HASH_RE = /^[A-Za-z0-9+/]{6}$/;
+const INTL_KEY_RE = /^[A-Z][A-Z0-9_]{0,200}$/;
+
+export type SnapshotBuildInfo = Readonly<Record<string, string | number | boolean | null>>;
+
+export interface ModuleSnapshot {
+    readonly build: string;
+    readonly savedAt: number;
+    readonly buildInfo: SnapshotBuildInfo;
+    readonly sources: ReadonlyMap<string, string>;
+    readonly hints: ReadonlyMap<string, string>;
+    readonly imports: ReadonlyMap<string, readonly string[]>;
+    readonly intlKeys: ReadonlyMap<string, string>;
+    readonly intlMessages: ReadonlyMap<string, string>;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function fromMap<V>(map: ReadonlyMap<string, V>, limit = Infinity): Record<string, V> {
+    const out: Record<string, V> = {};
+    let n = 0;
+    for (const [k, v] of map) {
+        if (n++ >= limit) break;
+        out[k] = v;
+    }
+    return out;
+}
+
+function toMap<V>(raw: unknown, keyOk: (k: string) => boolean, read: (v: unknown) => V | null, limit = Infinity): Map<string, V> {
+    const out = new Map<string, V>();
+    if (!isRecord(raw)) return out;
+    for (const [k, v] of Object.entries(raw)) {
+        if (out.size >= limit) break;
+        if (!keyOk(k)) continue;
+        const value = read(v);
+        if (value !== null) out.set(k, value);
+    }
+    return out;
+}
+
+const readString = (max: number) => (v: unknown): string | null => typeof v === "string" && v.length <= max ? v : null;
+
+function readDeps(v: unknown): string[] | null {
+    if (!Array.isArray(v) || v.length > MAX_DEPS) return null;
+    return v.every(d => typeof d === "string" && MODULE_ID_RE.test(d)) ? v : null;
+}
+
+function readBuildInfo(raw: unknown): SnapshotBuildInfo {
+    const out: Record<string, string | number | boolean | null> = {};
+    if (!isRecord(raw)) return out;
+    for (const [k, v] of Object.entries(raw)) {
+        if (v === null || typeof v === "number" || typeof v === "boolean") out[k] = v;
+        else if (typeof v === "string") out[k] = v.slice(0, MAX_HINT_LEN);
+    }
+    return out;
+}
+
+export function serializeSnapshot(snapshot: Omit<ModuleSnapshot, "savedAt"> & { savedAt?: number }): string {
+    return JSON.stringify({
+        v: SNAPSHOT_FORMAT_VERSION,
+        build: snapshot.build,
+        savedAt: snapshot.savedAt ?? Date.now(),
+        buildInfo: snapshot.buildInfo,
+        sources: fromMap(snapshot.sources, MAX_SNAPSHOT_MODULES),
+        hints: fromMap(snapshot.hints, MAX_SNAPSHOT_MODULES),
+        imports: fromMap(snapshot.imports, MAX_SNAPSHOT_MODULES),
+        intlKeys: fromMap(snapshot.intlKeys),
+        intlMessages: fromMap(snapshot.intlMessages),
+    });
+}
+
+export function parseSnapshot(text: string): ModuleSnapshot | null {
+    let raw: unknown;
+    try { raw = JSON.parse(text); } catch { return null; }
+    if (!isRecord(raw)) return null;
+    const { v, build, savedAt, buildInfo, sources, hints, imports, intlKeys, intlMessages } = raw;
+    if (v !== SNAPSHOT_FORMAT_VERSION || typeof build !== "string" || !BUILD_KEY_RE.test(build)) return null;
+    if (!isRecord(sources)) return null;
+
+    const isModuleId = (id: string) => MODULE_ID_RE.test(id);
+    const isHash = (h: string) => INTL_HASH_RE.test(h);
+    const sourceMap = toMap(sources, isModuleId, readString(MAX_SOURCE_LEN), MAX_SNAPSHOT_MODULES);
+    return {
+        build,
+        savedAt: typeof savedAt === "number" && Number.isFinite(savedAt) ? savedAt : 0,
+        buildInfo: readBuildInfo(buildInfo),
+        sources: sourceMap,
+        hints: toMap(hints, id => sourceMap.has(id), readString(MAX_HINT_LEN)),
+        imports: toMap(imports, id => sourceMap.has(id), readDeps),
+        intlKeys: toMap(intlKeys, isHash, v => typeof v === "string" && INTL_KEY_RE.test(v) ? v : null),
+        intlMessages: toMap(intlMessages, isHash, readString(MAX_SOURCE_LEN)),
+    };
+}
@@ -0,0 +1,81 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { createNgramIndex } from "./ngramIndex";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const DOCS: Record<string, string> = {
+    "1": "0,function(e,t,n){n.d(t,{Z:()=>a});let a=\"UserSettingsStore\"}",
+    "2": "0,function(e,t,n){let a=r.t.Zz9yY8+\"ChannelStore\"+\"container_a1b2c3\"}",
+    "3": "0,function(e,t,n){return\"Something went wrong loading settings\"}",
+};
+
+function filled(bucketBits?: number) {
+    const index = createNgramIndex(bucketBits);
+    for (const [id, src] of Object.entries(DOCS)) index.add(id, src);
+    return index;
+}
+
+check("candidates are a superset of the documents containing the needle", () => {
+    const index = filled();
+    for (const needle of ["UserSettingsStore", "ChannelStore", "Store\"", "settings", "function(e,t,n){", "nowhere-to-be-found"]) {
+        const truth = Object.keys(DOCS).filter(id => DOCS[id].includes(needle));
+        const got = index.candidates([needle])!;
+        for (const id of truth) assert.ok(got.includes(id), `${needle} missing ${id}`);
+    }
+    assert.deepStrictEqual(index.candidates(["UserSettingsStore"]), ["1"]);
+});
+
+check("several needles are intersected", () => {
+    const index = filled();
+    assert.deepStrictEqual(index.candidates(["function(e,t,n)", "ChannelStore"]), ["2"]);
+    assert.deepStrictEqual(index.candidates(["ChannelStore", "UserSettingsStore"]), []);
+});
+
+check("needles shorter than a trigram give no answer", () => {
+    const index = filled();
+    assert.strictEqual(index.candidates(["ab"]), null);
+    assert.strictEqual(index.candidates([]), null);
+    assert.deepStrictEqual(index.candidates(["ab", "ChannelStore"]), ["2"]);
+});
+
+check("re-adding a key merges instead of duplicating", () => {
+    const index = filled();
+    index.add("3", "brand new content for three");
+    assert.strictEqual(index.size, 3);
+    assert.deepStrictEqual(index.candidates(["brand new"]), ["3"]);
+    assert.deepStrictEqual(index.candidates(["went wrong"]), ["3"]);
+});
+
+check("grows past the initial capacity and keeps insertion order", () => {
+    const index = createNgramIndex(8);
+    for (let i = 0; i < 3000; i++) index.add(String(i), `module_${i}_body`);
+    assert.strictEqual(index.size, 3000);
+    assert.ok(index.has("2999"));
+    const got = index.candidates(["module_2999_"])!;
+    assert.ok(got.includes("2999"));
+    assert.deepStrictEqual(got, [...got].sort((a, b) => Number(a) - Number(b)));
+    assert.ok(index.candidates(["_body"])!.length === 3000);
+});
+
+check("tiny bucket counts only add false positives, never false negatives", () => {
+    const index = filled(2);
+    for (const needle of ["UserSettingsStore", "container_a1b2c3", "went wrong"]) {
+        const truth = Object.keys(DOCS).filter(id => DOCS[id].includes(needle));
+        const got = index.candidates([needle])!;
+        for (const id of truth) assert.ok(got.includes(id));
+    }
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,89 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const NGRAM = 3;
+
+const INITIAL_CAPACITY = 1024;
+const MAX_QUERY_GRAMS = 48;
+
+export interface NgramIndex {
+    readonly size: number;
+    has(key: string): boolean;
+    add(key: string, text: string): void;
+    candidates(needles: readonly string[]): string[] | null;
+}
+
+function gramHash(a: number, b: number, c: number, shift: number): number {
+    return Math.imul((a << 16) ^ (b << 8) ^ c, 0x9e3779b1) >>> shift;
+}
+
+export function createNgramIndex(bucketBits = 12): NgramIndex {
+    const buckets = 1 << bucketBits;
+    const shift = 32 - bucketBits;
+    const keys: string[] = [];
+    const docOf = new Map<string, number>();
+    let words = INITIAL_CAPACITY >>> 5;
+    let bits = new Uint32Array(buckets * words);
+
+    const grow = () => {
+        const next = new Uint32Array(buckets * words * 2);
+        for (let row = 0; row < buckets; row++) next.set(bits.subarray(row * words, (row + 1) * words), row * words * 2);
+        bits = next;
+        words *= 2;
+    };
+
+    const gramsOf = (text: string, out: Set<number>, cap: number) => {
+        for (let i = 0; i + NGRAM <= text.length && out.size < cap; i++) {
+            out.add(gramHash(text.charCodeAt(i), text.charCodeAt(i + 1), text.charCodeAt(i + 2), shift));
+        }
+    };
+
+    return {
+        get size() { return keys.length; },
+
+        has: key => docOf.has(key),
+
+        add(key, text) {
+            let doc = docOf.get(key);
+            if (doc === undefined) {
+                doc = keys.length;
+                if (doc >= words * 32) grow();
+                keys.push(key);
+                docOf.set(key, doc);
+            }
+            const word = doc >>> 5;
+            const mask = 1 << (doc & 31);
+            for (let i = 0; i + NGRAM <= text.length; i++) {
+                bits[gramHash(text.charCodeAt(i), text.charCodeAt(i + 1), text.charCodeAt(i + 2), shift) * words + word] |= mask;
+            }
+        },
+
+        candidates(needles) {
+            const grams = new Set<number>();
+            for (const needle of needles) gramsOf(needle, grams, MAX_QUERY_GRAMS);
+            if (!grams.size) return null;
+
+            const used = (keys.length + 31) >>> 5;
+            const acc = new Uint32Array(used).fill(0xffffffff);
+            for (const row of grams) {
+                const base = row * words;
+                for (let w = 0; w < used; w++) acc[w] &= bits[base + w];
+            }
+
+            const out: string[] = [];
+            for (let w = 0; w < used; w++) {
+                let v = acc[w];
+                while (v) {
+                    const low = v & -v;
+                    const doc = (w << 5) + 31 - Math.clz32(low);
+                    if (doc < keys.length) out.push(keys[doc]);
+                    v ^= low;
+                }
+            }
+            return out;
+        },
+    };
+}
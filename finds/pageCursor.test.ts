@@ -0,0 +1,78 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { callKey, createPageCache, decodeCursor, encodeCursor, type Page } from "./pageCursor";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+let clock = 1_000;
+const cache = () => createPageCache({ ttlMs: 100, maxEntries: 2, now: () => clock });
+const ITEMS = Array.from({ length: 7 }, (_, i) => i);
+
+check("cursors round-trip and reject anything that was not produced by encodeCursor", () => {
+    const text = encodeCursor({ id: "abc1", offset: 40 });
+    assert.match(text, /^[\w-]+$/);
+    assert.deepStrictEqual(decodeCursor(text), { id: "abc1", offset: 40 });
+    for (const bad of ["", "!!", btoa("[1,2]"), encodeCursor({ id: "abc1", offset: 0 }), encodeCursor({ id: "A B", offset: 3 }), 5]) {
+        assert.strictEqual(decodeCursor(bad), null);
+    }
+});
+
+check("call keys ignore paging arguments and key order", () => {
+    assert.strictEqual(callKey("module", { action: "find", props: ["a"], limit: 5, cursor: "x" }), callKey("module", { props: ["a"], action: "find" }));
+    assert.notStrictEqual(callKey("module", { action: "find", props: ["a"] }), callKey("module", { action: "find", props: ["b"] }));
+    assert.notStrictEqual(callKey("module", { action: "find" }), callKey("store", { action: "find" }));
+});
+
+check("pages walk an array and a string deterministically until nextCursor is gone, carrying the summary along", () => {
+    const c = cache();
+    const call = callKey("flux", { action: "events" });
+    const seen: number[] = [];
+    let page: Page<number[]> | string = c.first(call, ITEMS, 3);
+    for (;;) {
+        assert.ok(typeof page !== "string");
+        seen.push(...page.page);
+        assert.strictEqual(page.total, 7);
+        if (!page.nextCursor) break;
+        page = c.resume<number[]>(call, page.nextCursor, 3);
+    }
+    assert.deepStrictEqual(seen, ITEMS);
+
+    const text = c.first("module:extract", "abcdefgh", 5, { patched: true });
+    assert.deepStrictEqual([text.page, text.offset, text.summary], ["abcde", 0, { patched: true }]);
+    const rest = c.resume<string, { patched: boolean }>("module:extract", text.nextCursor!, 5);
+    assert.ok(typeof rest !== "string");
+    assert.deepStrictEqual([rest.page, rest.offset, rest.nextCursor, rest.summary], ["fgh", 5, undefined, { patched: true }]);
+});
+
+check("a result that fits one page is not cached", () => {
+    const c = cache();
+    const page = c.first("x", ITEMS, 10);
+    assert.deepStrictEqual([page.page, page.nextCursor, c.size], [ITEMS, undefined, 0]);
+});
+
+check("expired, evicted and foreign cursors fail with a reason", () => {
+    const c = cache();
+    const a = c.first("a", ITEMS, 2).nextCursor!;
+    assert.strictEqual(c.resume("b", a, 2), "mismatch");
+    clock += 101;
+    assert.strictEqual(c.resume("a", a, 2), "expired");
+    const b = c.first("b", ITEMS, 2).nextCursor!;
+    c.first("c", ITEMS, 2);
+    c.first("d", ITEMS, 2);
+    assert.strictEqual(c.size, 2);
+    assert.strictEqual(c.resume("b", b, 2), "expired");
+    assert.strictEqual(c.resume("b", "garbage", 2), "invalid");
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,127 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type Pageable = string | readonly unknown[];
+
+export interface PageCursor {
+    readonly id: string;
+    readonly offset: number;
+}
+
+export interface Page<V extends Pageable, S = undefined> {
+    readonly page: V;
+    readonly offset: number;
+    readonly total: number;
+    readonly nextCursor?: string;
+    readonly summary: S;
+}
+
+export type PageFailure = "invalid" | "expired" | "mismatch";
+
+export interface PageCacheOptions {
+    readonly ttlMs: number;
+    readonly maxEntries: number;
+    readonly now?: () => number;
+}
+
+export interface PageCache {
+    first<V extends Pageable, S = undefined>(call: string, value: V, size: number, summary?: S): Page<V, S>;
+    resume<V extends Pageable, S = undefined>(call: string, cursor: string, size: number): Page<V, S> | PageFailure;
+    clear(): void;
+    readonly size: number;
+}
+
+interface Entry {
+    readonly call: string;
+    readonly value: Pageable;
+    readonly summary: unknown;
+    expiresAt: number;
+}
+
+const CURSOR_ID_RE = /^[a-z0-9]{1,24}$/;
+
+export function encodeCursor(cursor: PageCursor): string {
+    return btoa(JSON.stringify([cursor.id, cursor.offset])).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(text: unknown): PageCursor | null {
+    if (typeof text !== "string" || !text || text.length > 128) return null;
+    let data: unknown;
+    try { data = JSON.parse(atob(text.replace(/-/g, "+").replace(/_/g, "/"))); } catch { return null; }
+    if (!Array.isArray(data) || data.length !== 2) return null;
+    const [id, offset] = data;
+    if (typeof id !== "string" || !CURSOR_ID_RE.test(id) || !Number.isSafeInteger(offset) || offset <= 0) return null;
+    return { id, offset };
+}
+
+function stable(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(stable);
+    if (!value || typeof value !== "object") return value;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) out[key] = stable((value as Record<string, unknown>)[key]);
+    return out;
+}
+
+export function callKey(tool: string, args: Readonly<Record<string, unknown>>, ignore: readonly string[] = ["cursor", "limit", "maxLength"]): string {
+    const kept: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(args)) {
+        if (v !== undefined && !ignore.includes(key)) kept[key] = v;
+    }
+    return `${tool}:${JSON.stringify(stable(kept))}`;
+}
+
+export function createPageCache(opts: PageCacheOptions): PageCache {
+    const now = opts.now ?? Date.now;
+    const entries = new Map<string, Entry>();
+    let seq = 0;
+
+    const prune = () => {
+        const t = now();
+        for (const [id, e] of entries) if (e.expiresAt <= t) entries.delete(id);
+    };
+
+    const slice = <V extends Pageable, S>(id: string | null, value: V, summary: S, offset: number, size: number): Page<V, S> => {
+        const end = offset + Math.max(1, size);
+        return {
+            page: value.slice(offset, end) as V,
+            offset,
+            total: value.length,
+            nextCursor: id && end < value.length ? encodeCursor({ id, offset: end }) : undefined,
+            summary,
+        };
+    };
+
+    return {
+        first<V extends Pageable, S = undefined>(call: string, value: V, size: number, summary?: S) {
+            prune();
+            if (value.length <= Math.max(1, size)) return slice(null, value, summary as S, 0, size);
+            const id = `${now().toString(36)}${(++seq).toString(36)}`;
+            entries.set(id, { call, value, summary, expiresAt: now() + opts.ttlMs });
+            for (const oldest of entries.keys()) {
+                if (entries.size <= opts.maxEntries) break;
+                entries.delete(oldest);
+            }
+            return slice(id, value, summary as S, 0, size);
+        },
+        resume<V extends Pageable, S = undefined>(call: string, cursor: string, size: number) {
+            const parsed = decodeCursor(cursor);
+            if (!parsed) return "invalid";
+            prune();
+            const entry = entries.get(parsed.id);
+            if (!entry) return "expired";
+            if (entry.call !== call) return "mismatch";
+            if (parsed.offset >= entry.value.length) return "invalid";
+            entry.expiresAt = now() + opts.ttlMs;
+            return slice(parsed.id, entry.value as V, entry.summary as S, parsed.offset, size);
+        },
+        clear() {
+            entries.clear();
+        },
+        get size() {
+            return entries.size;
+        },
+    };
+}
@@ -0,0 +1,50 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { emitPatchCode, matchPatch, patchVerdict } from "./patchCheck";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const SIZES = { MATCHED_TEXT_MAX: 300, MATCH_CONTEXT_PAD: 5, REPLACEMENT_BEFORE: 5, REPLACEMENT_AFTER: 10 };
+const SOURCE = "function x(){return a.isEnabled(b)&&c}";
+
+check("a matching regex reports the hit, capture count and the replaced source", () => {
+    const m = matchPatch(SOURCE, /return (\w)\.isEnabled/g, "return true||$1.isEnabled", SIZES);
+    assert.deepStrictEqual([m.matchWorks, m.matchIndex, m.matchedText, m.captureGroups, m.replaceNoop], [true, 13, "return a.isEnabled", 1, false]);
+    assert.strictEqual(m.replaced, "function x(){return true||a.isEnabled(b)&&c}");
+    assert.strictEqual(m.matchContext, " x(){return a.isEnabled(b)&&");
+});
+
+check("a miss or an identical replacement is reported without a preview or as a noop", () => {
+    assert.deepStrictEqual(matchPatch(SOURCE, /nothing/, "x", SIZES).matchWorks, false);
+    assert.strictEqual(matchPatch(SOURCE, /isEnabled/, "isEnabled", SIZES).replaceNoop, true);
+    assert.strictEqual(matchPatch(SOURCE, /isEnabled/, undefined, SIZES).replacementPreview, null);
+});
+
+check("the verdict checks the find, then the match, then warnings", () => {
+    const base = { findModuleCount: 1, unsafePattern: false, matchWorks: true, replaceNoop: false, severities: [] };
+    assert.strictEqual(patchVerdict(base), "PASS");
+    assert.strictEqual(patchVerdict({ ...base, findModuleCount: 0 }), "FIND_NO_MATCH");
+    assert.strictEqual(patchVerdict({ ...base, findModuleCount: 2, matchWorks: false }), "FIND_NOT_UNIQUE");
+    assert.strictEqual(patchVerdict({ ...base, matchWorks: false }), "MATCH_FAILED");
+    assert.strictEqual(patchVerdict({ ...base, severities: ["info", "warning"] }), "PASS_WITH_WARNINGS");
+    assert.strictEqual(patchVerdict({ ...base, severities: ["warning", "error"] }), "PASS_WITH_ERRORS");
+});
+
+check("emitted patch code round-trips through the caller's regex builder", () => {
+    const out = emitPatchCode("isEnabled(b)", "/return (\\i)\\.isEnabled/", "return true||$1.isEnabled", {}, re => re);
+    assert.deepStrictEqual(out.roundTrip, { ok: true });
+    assert.match(out.code, /find: "isEnabled\(b\)"/);
+});
+
+console.log(`\nall ${passed} checks passed`);
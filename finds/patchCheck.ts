@@ -0,0 +1,112 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { formatPatchCode, parsePatchCode, parseRegexArg, type RegexSpec } from "./patchCode";
+
+export interface PreviewSizes {
+    readonly MATCHED_TEXT_MAX: number;
+    readonly MATCH_CONTEXT_PAD: number;
+    readonly REPLACEMENT_BEFORE: number;
+    readonly REPLACEMENT_AFTER: number;
+}
+
+export interface MatchOutcome {
+    readonly matchWorks: boolean;
+    readonly matchIndex: number | null;
+    readonly matchedText: string | null;
+    readonly captureGroups: number;
+    readonly matchContext: string | null;
+    readonly replaced: string | null;
+    readonly replaceNoop: boolean;
+    readonly replacementPreview: string | null;
+}
+
+export type PatchVerdict = "FIND_NO_MATCH" | "FIND_NOT_UNIQUE" | "UNSAFE_PATTERN" | "MATCH_FAILED" | "REPLACE_NOOP" | "PASS_WITH_ERRORS" | "PASS_WITH_WARNINGS" | "PASS";
+
+export interface VerdictInput {
+    readonly findModuleCount: number;
+    readonly unsafePattern: boolean;
+    readonly matchWorks: boolean;
+    readonly replaceNoop: boolean;
+    readonly severities: readonly string[];
+}
+
+export interface EmitOptions {
+    readonly findRegex?: boolean;
+    readonly group?: boolean;
+    readonly noWarn?: boolean;
+}
+
+export interface EmittedPatchCode {
+    readonly code: string;
+    readonly roundTrip: { readonly ok: true } | { readonly ok: false; readonly mismatches: readonly string[] };
+}
+
+export const UNSAFE_PATTERN_RE = /\([^)]*[*+][^)]*\)[*+]/;
+
+export function snippet(source: string, idx: number, matchLen: number, before = 60, after = 120): string {
+    if (idx < 0) return source.slice(0, 200);
+    return source.slice(Math.max(0, idx - before), Math.min(source.length, idx + matchLen + after));
+}
+
+const firstOnly = (regex: RegExp) => regex.global ? new RegExp(regex.source, regex.flags.replace("g", "")) : regex;
+
+export function matchPatch(source: string, regex: RegExp, replace: string | null | undefined, sizes: PreviewSizes): MatchOutcome {
+    const hit = source.match(firstOnly(regex));
+    if (hit?.index === undefined) {
+        return { matchWorks: false, matchIndex: null, matchedText: null, captureGroups: 0, matchContext: null, replaced: null, replaceNoop: false, replacementPreview: null };
+    }
+    let replaced: string | null = null;
+    let replacementPreview: string | null = null;
+    if (replace != null) {
+        replaced = source.replace(regex, replace);
+        replacementPreview = snippet(replaced, hit.index, replace.length || 50, sizes.REPLACEMENT_BEFORE, sizes.REPLACEMENT_AFTER);
+    }
+    return {
+        matchWorks: true,
+        matchIndex: hit.index,
+        matchedText: hit[0].slice(0, sizes.MATCHED_TEXT_MAX),
+        captureGroups: hit.length - 1,
+        matchContext: snippet(source, hit.index, hit[0].length, sizes.MATCH_CONTEXT_PAD, sizes.MATCH_CONTEXT_PAD),
+        replaced,
+        replaceNoop: replaced === source,
+        replacementPreview,
+    };
+}
+
+export function patchVerdict(v: VerdictInput): PatchVerdict {
+    if (v.findModuleCount === 0) return "FIND_NO_MATCH";
+    if (v.findModuleCount > 1) return "FIND_NOT_UNIQUE";
+    if (v.unsafePattern) return "UNSAFE_PATTERN";
+    if (!v.matchWorks) return "MATCH_FAILED";
+    if (v.replaceNoop) return "REPLACE_NOOP";
+    if (v.severities.includes("error")) return "PASS_WITH_ERRORS";
+    if (v.severities.includes("warning")) return "PASS_WITH_WARNINGS";
+    return "PASS";
+}
+
+export function emitPatchCode(find: string, match: string, replace: string, opts: EmitOptions, buildRegex: (regex: RegExp) => RegExp): EmittedPatchCode {
+    const spec = { find: opts.findRegex ? { source: find, flags: "" } : find, match: parseRegexArg(match) ?? match, replace, group: opts.group, noWarn: opts.noWarn };
+    const code = formatPatchCode(spec);
+    const parsed = parsePatchCode(code);
+
+    const asRegex = (v: RegexSpec) => {
+        try { return buildRegex(new RegExp(v.source, v.flags)); } catch { return null; }
+    };
+    const same = (a: string | RegexSpec, b: string | RegexSpec) => {
+        if (typeof a === "string" || typeof b === "string") return a === b;
+        const ra = asRegex(a);
+        const rb = asRegex(b);
+        return !!ra && !!rb && ra.source === rb.source && ra.flags === rb.flags;
+    };
+
+    const mismatches = !parsed ? ["unparseable"] : [
+        ...same(parsed.find, spec.find) ? [] : ["find"],
+        ...same(parsed.match, spec.match) ? [] : ["match"],
+        ...parsed.replace === replace ? [] : ["replace"],
+    ];
+    return { code, roundTrip: mismatches.length ? { ok: false, mismatches } : { ok: true } };
+}
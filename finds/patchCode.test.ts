@@ -0,0 +1,70 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { formatPatchCode, parsePatchCode, parseRegexArg, type RegexSpec, toRegexLiteral } from "./patchCode";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const asRegExp = (spec: RegexSpec) => new RegExp(spec.source.replaceAll("\\i", "\\w+"), spec.flags);
+
+check("toRegexLiteral escapes bare slashes and newlines but not inside classes", () => {
+    assert.strictEqual(toRegexLiteral({ source: "a/b[/]c\\/d", flags: "g" }), "/a\\/b[/]c\\/d/g");
+    assert.strictEqual(toRegexLiteral({ source: "x\ny", flags: "" }), "/x\\ny/");
+    assert.strictEqual(toRegexLiteral({ source: "", flags: "" }), "/(?:)/");
+    assert.deepStrictEqual(parseRegexArg("/a\\i/g"), { source: "a\\i", flags: "g" });
+    assert.strictEqual(parseRegexArg("plain"), null);
+});
+
+check("formatPatchCode emits a definePlugin patches literal that evaluates", () => {
+    const code = formatPatchCode({
+        find: "#{intl::USER_SETTINGS}",
+        match: { source: String.raw`(\i)\.isStaff\(\)/"x"`, flags: "" },
+        replace: '$&||$self.check($1,"\\n")',
+        noWarn: true,
+    });
+    assert.ok(code.startsWith("patches: [\n    {\n        find: \"#{intl::USER_SETTINGS}\","));
+    assert.ok(code.includes("noWarn: true,"));
+    assert.ok(!code.includes("group:"));
+    assert.ok(code.includes(String.raw`match: /(\i)\.isStaff\(\)\/"x"/,`));
+    const { patches } = new Function(`return {${code}}`)();
+    assert.strictEqual(patches[0].find, "#{intl::USER_SETTINGS}");
+    assert.strictEqual(patches[0].replacement.replace, '$&||$self.check($1,"\\n")');
+    assert.ok(patches[0].replacement.match instanceof RegExp);
+});
+
+check("parsePatchCode round-trips find, match, replace and flags", () => {
+    const spec = {
+        find: { source: String.raw`\.user/\i`, flags: "" },
+        match: { source: String.raw`[/"](\i)=>{`, flags: "g" },
+        replace: "$1",
+        group: true,
+    };
+    const parsed = parsePatchCode(formatPatchCode(spec))!;
+    assert.strictEqual(asRegExp(parsed.find as RegexSpec).source, asRegExp(spec.find).source);
+    assert.strictEqual(asRegExp(parsed.match as RegexSpec).source, asRegExp(spec.match).source);
+    assert.strictEqual((parsed.match as RegexSpec).flags, "g");
+    assert.strictEqual(parsed.replace, "$1");
+    assert.strictEqual(parsed.group, true);
+    assert.strictEqual(parsed.noWarn, false);
+
+    const plain = parsePatchCode(formatPatchCode({ find: "a\"b", match: "c.d", replace: "" }))!;
+    assert.deepStrictEqual([plain.find, plain.match, plain.replace], ["a\"b", "c.d", ""]);
+});
+
+check("parsePatchCode rejects incomplete or duplicated entries", () => {
+    assert.strictEqual(parsePatchCode("find: \"x\", replacement: { match: /y/ }"), null);
+    assert.strictEqual(parsePatchCode("find: \"x\", find: \"z\", replacement: { match: /y/, replace: \"\" }"), null);
+    assert.strictEqual(parsePatchCode("find: x, replacement: { match: /y/, replace: \"\" }"), null);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,100 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { tokenize, tokenText } from "./tokenizer";
+
+export interface RegexSpec {
+    readonly source: string;
+    readonly flags: string;
+}
+
+export interface PatchCodeSpec {
+    readonly find: string | RegexSpec;
+    readonly match: string | RegexSpec;
+    readonly replace: string;
+    readonly group?: boolean;
+    readonly noWarn?: boolean;
+}
+
+const INDENT = "    ";
+const PATCH_KEYS: ReadonlySet<string> = new Set(["find", "match", "replace", "group", "noWarn"]);
+
+export function parseRegexArg(pattern: string): RegexSpec | null {
+    const lastSlash = pattern.lastIndexOf("/");
+    if (!pattern.startsWith("/") || lastSlash <= 0) return null;
+    return { source: pattern.slice(1, lastSlash), flags: pattern.slice(lastSlash + 1) };
+}
+
+export function toRegexLiteral({ source, flags }: RegexSpec): string {
+    let out = "";
+    let inClass = false;
+    for (let i = 0; i < source.length; i++) {
+        const c = source[i];
+        if (c === "\\" && i + 1 < source.length) {
+            const next = source[i + 1];
+            out += next === "\n" ? "\\n" : next === "\r" ? "\\r" : c + next;
+            i++;
+            continue;
+        }
+        if (c === "[") inClass = true;
+        else if (c === "]") inClass = false;
+        if (c === "/" && !inClass) out += "\\/";
+        else if (c === "\n") out += "\\n";
+        else if (c === "\r") out += "\\r";
+        else out += c;
+    }
+    return `/${out || "(?:)"}/${flags}`;
+}
+
+const literal = (value: string | RegexSpec) => typeof value === "string" ? JSON.stringify(value) : toRegexLiteral(value);
+
+export function formatPatchEntry(spec: PatchCodeSpec, indent = ""): string {
+    const lines = [
+        "{",
+        `${INDENT}find: ${literal(spec.find)},`,
+        ...spec.group ? [`${INDENT}group: true,`] : [],
+        ...spec.noWarn ? [`${INDENT}noWarn: true,`] : [],
+        `${INDENT}replacement: {`,
+        `${INDENT.repeat(2)}match: ${literal(spec.match)},`,
+        `${INDENT.repeat(2)}replace: ${JSON.stringify(spec.replace)}`,
+        `${INDENT}}`,
+        "}",
+    ];
+    return lines.map(l => indent + l).join("\n");
+}
+
+export function formatPatchCode(spec: PatchCodeSpec): string {
+    return `patches: [\n${formatPatchEntry(spec, INDENT)}\n]`;
+}
+
+export function parsePatchCode(code: string): PatchCodeSpec | null {
+    const tokens = tokenize(code);
+    const values = new Map<string, string | RegexSpec | boolean>();
+    for (let i = 0; i + 2 < tokens.length; i++) {
+        const key = tokenText(code, tokens[i]);
+        if (!PATCH_KEYS.has(key) || tokenText(code, tokens[i + 1]) !== ":") continue;
+        const value = tokens[i + 2];
+        const text = tokenText(code, value);
+        if (values.has(key)) return null;
+        if (value.kind === "str") {
+            try { values.set(key, JSON.parse(text)); } catch { return null; }
+        } else if (value.kind === "regex") {
+            const spec = parseRegexArg(text);
+            if (!spec) return null;
+            values.set(key, spec);
+        } else if (text === "true" || text === "false") {
+            values.set(key, text === "true");
+        } else {
+            return null;
+        }
+    }
+
+    const find = values.get("find");
+    const match = values.get("match");
+    const replace = values.get("replace");
+    if (find == null || typeof find === "boolean" || match == null || typeof match === "boolean" || typeof replace !== "string") return null;
+    return { find, match, replace, group: values.get("group") === true, noWarn: values.get("noWarn") === true };
+}
@@ -0,0 +1,70 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { locateEdit, locateInsertion, type SourceEdit, synthesizePatch } from "./patchSynth";
+import { expandIi } from "./tokenFinds";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const SOURCE = 'function(e,t,n){let r=n(4821);function a(e){return e.isStaff?"staff":"user"}function o(e){let t=a(e);return(0,r.jsx)("div",{className:t,children:e.name})}t.Z=o}';
+
+function apply(source: string, match: string, replace: string): string {
+    return source.replace(new RegExp(expandIi(match)), replace);
+}
+
+check("locateEdit diffs an edited excerpt against the source", () => {
+    const excerpt = 'return e.isStaff?"staff":"member"}';
+    const edit = locateEdit(SOURCE, excerpt) as SourceEdit;
+    assert.strictEqual(SOURCE.slice(0, edit.start) + edit.insert + SOURCE.slice(edit.end), SOURCE.replace('"user"', '"member"'));
+    assert.strictEqual(locateEdit(SOURCE, "return e.isStaff"), "unchanged");
+    assert.strictEqual(locateEdit(SOURCE, "nothing like this here"), "notFound");
+    assert.strictEqual(locateEdit(SOURCE, "function XYZ"), "ambiguous");
+});
+
+check("locateInsertion requires a unique anchor", () => {
+    const edit = locateInsertion(SOURCE, "children:e.name", ",title:e.name") as SourceEdit;
+    assert.strictEqual(edit.start, SOURCE.indexOf("children:e.name") + "children:e.name".length);
+    assert.strictEqual(edit.end, edit.start);
+    assert.strictEqual(locateInsertion(SOURCE, "function", "x"), "ambiguous");
+    assert.strictEqual(locateInsertion(SOURCE, "", "x"), "notFound");
+});
+
+check("synthesizePatch captures referenced minified names and lands once", () => {
+    const edit = locateInsertion(SOURCE, "children:e.name", ",title:e.name") as SourceEdit;
+    const patch = synthesizePatch(SOURCE, edit)!;
+    assert.ok(patch.exact);
+    assert.ok(patch.match.includes("(\\i)"));
+    assert.ok(/\$\d/.test(patch.replace));
+    assert.deepStrictEqual(patch.unresolvedIdents, []);
+    assert.strictEqual(apply(SOURCE, patch.match, patch.replace), SOURCE.replace("children:e.name", "children:e.name,title:e.name"));
+
+    const renamed = SOURCE.replace(/\be\b/g, "q");
+    assert.strictEqual(apply(renamed, patch.match, patch.replace), renamed.replace("children:q.name", "children:q.name,title:q.name"));
+});
+
+check("synthesizePatch replaces a span and escapes replacement specials", () => {
+    const edit = locateEdit(SOURCE, '?"staff":"$&user"}') as SourceEdit;
+    const patch = synthesizePatch(SOURCE, edit)!;
+    assert.ok(patch.exact);
+    assert.ok(patch.replace.startsWith("$1"));
+    assert.strictEqual(apply(SOURCE, patch.match, patch.replace), SOURCE.replace('"user"', () => '"$&user"'));
+});
+
+check("synthesizePatch reports snippet names it cannot capture", () => {
+    const edit = locateInsertion(SOURCE, "let t=a(e);", "Z(t);") as SourceEdit;
+    const patch = synthesizePatch(SOURCE, edit)!;
+    assert.deepStrictEqual(patch.unresolvedIdents, ["Z"]);
+    assert.ok(patch.exact);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,193 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { computeVolatileSpans, detectRequireParam } from "./genFinds";
+import { expandIi, isMinifiedIdent } from "./tokenFinds";
+import { type Token, tokenize, tokenText } from "./tokenizer";
+
+export interface SourceEdit {
+    readonly start: number;
+    readonly end: number;
+    readonly insert: string;
+}
+
+export interface SynthesizedPatch {
+    readonly match: string;
+    readonly replace: string;
+    readonly captures: number;
+    readonly contextTokens: { readonly before: number; readonly after: number };
+    readonly unresolvedIdents: readonly string[];
+    readonly exact: boolean;
+}
+
+export type EditFailure = "unchanged" | "notFound" | "ambiguous" | "tooFar";
+
+const MIN_ANCHOR_LEN = 8;
+const MAX_EDIT_SPAN = 4000;
+const MAX_CONTEXT_TOKENS = 40;
+const II = "\\i";
+const VOLATILE_NUMBER = "\\d+";
+const REPLACE_SPECIAL_RE = /\$(?=[$&`'\d<])/g;
+
+function escapeRe(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function longestPresent(source: string, len: number, piece: (n: number) => string, from = 0): number {
+    let lo = 0;
+    let hi = len;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (source.indexOf(piece(mid), from) >= 0) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+}
+
+export function locateEdit(source: string, excerpt: string): SourceEdit | EditFailure {
+    if (source.includes(excerpt)) return "unchanged";
+    const p = longestPresent(source, excerpt.length, n => excerpt.slice(0, n));
+    if (p < MIN_ANCHOR_LEN) return "notFound";
+    const prefix = excerpt.slice(0, p);
+    const at = source.indexOf(prefix);
+    if (source.indexOf(prefix, at + 1) >= 0) return "ambiguous";
+
+    const start = at + p;
+    const s = longestPresent(source, excerpt.length - p, n => excerpt.slice(excerpt.length - n), start);
+    const end = s ? source.indexOf(excerpt.slice(excerpt.length - s), start) : start;
+    if (end - start > MAX_EDIT_SPAN) return "tooFar";
+    return { start, end, insert: excerpt.slice(p, excerpt.length - s) };
+}
+
+export function locateInsertion(source: string, after: string, snippet: string): SourceEdit | EditFailure {
+    const at = source.indexOf(after);
+    if (!after || at < 0) return "notFound";
+    if (source.indexOf(after, at + 1) >= 0) return "ambiguous";
+    return { start: at + after.length, end: at + after.length, insert: snippet };
+}
+
+function snapToTokens(source: string, tokens: readonly Token[], edit: SourceEdit): { edit: SourceEdit; lo: number; hi: number } {
+    let lo = 0;
+    while (lo < tokens.length && tokens[lo].end <= edit.start) lo++;
+    let hi = lo;
+    while (hi < tokens.length && tokens[hi].start < edit.end) hi++;
+    const start = lo < tokens.length && tokens[lo].start < edit.start ? tokens[lo].start : edit.start;
+    const end = hi > lo && tokens[hi - 1].end > edit.end ? tokens[hi - 1].end : edit.end;
+    const insert = source.slice(start, edit.start) + edit.insert + source.slice(edit.end, end);
+    return { edit: { start, end, insert }, lo, hi };
+}
+
+function identsOf(text: string): Set<string> {
+    const tokens = tokenize(text);
+    const out = new Set<string>();
+    for (let i = 0; i < tokens.length; i++) if (isMinifiedIdent(text, tokens, i)) out.add(tokenText(text, tokens[i]));
+    return out;
+}
+
+interface Built {
+    pattern: string;
+    replace: string;
+    captures: number;
+    unresolved: string[];
+}
+
+function build(source: string, tokens: readonly Token[], spans: ReadonlyArray<readonly [number, number]>, edit: SourceEdit, lo: number, hi: number, before: number, after: number): Built {
+    const wanted = identsOf(edit.insert);
+    const groups = new Map<string, number>();
+    const hasLeft = before > 0;
+    const wrapsLeft = hasLeft && edit.end > edit.start;
+    let group = wrapsLeft ? 1 : 0;
+
+    const volatile = (t: Token) => spans.some(([s, e]) => s < t.end && e > t.start);
+    const emit = (from: number, to: number): string => {
+        let out = "";
+        for (let k = from; k < to; k++) {
+            const t = tokens[k];
+            if (k > from) out += escapeRe(source.slice(tokens[k - 1].end, t.start));
+            const text = tokenText(source, t);
+            if (isMinifiedIdent(source, tokens, k)) {
+                if (wanted.has(text) && !groups.has(text)) {
+                    groups.set(text, ++group);
+                    out += `(${II})`;
+                } else {
+                    out += II;
+                }
+            } else if (t.kind === "number" && volatile(t)) {
+                out += VOLATILE_NUMBER;
+            } else {
+                out += escapeRe(text);
+            }
+        }
+        return out;
+    };
+
+    const gap = (a: number, b: number) => escapeRe(source.slice(a, b));
+    const left = hasLeft ? emit(lo - before, lo) + gap(tokens[lo - 1].end, edit.start) : "";
+    const middle = hi > lo ? gap(edit.start, tokens[lo].start) + emit(lo, hi) + gap(tokens[hi - 1].end, edit.end) : gap(edit.start, edit.end);
+    const right = after > 0 ? gap(edit.end, tokens[hi].start) + emit(hi, hi + after) : "";
+    const pattern = (wrapsLeft ? `(${left})` : left) + middle + (right ? `(?=${right})` : "");
+
+    const insertTokens = tokenize(edit.insert);
+    let insert = "";
+    let cursor = 0;
+    const unresolved = new Set<string>();
+    for (let i = 0; i < insertTokens.length; i++) {
+        if (!isMinifiedIdent(edit.insert, insertTokens, i)) continue;
+        const t = insertTokens[i];
+        const name = tokenText(edit.insert, t);
+        const n = groups.get(name);
+        if (n == null) { unresolved.add(name); continue; }
+        insert += edit.insert.slice(cursor, t.start).replace(REPLACE_SPECIAL_RE, "$$$$") + `$${n}`;
+        cursor = t.end;
+    }
+    insert += edit.insert.slice(cursor).replace(REPLACE_SPECIAL_RE, "$$$$");
+
+    const replace = (wrapsLeft ? "$1" : hasLeft ? "$&" : "") + insert;
+    return { pattern, replace, captures: group, unresolved: [...unresolved] };
+}
+
+function landsOnce(source: string, pattern: string, at: number): boolean {
+    let re: RegExp;
+    try { re = new RegExp(expandIi(pattern), "g"); } catch { return false; }
+    const first = re.exec(source);
+    if (first?.index !== at) return false;
+    if (first[0].length === 0) re.lastIndex++;
+    return re.exec(source) === null;
+}
+
+export function synthesizePatch(source: string, rawEdit: SourceEdit, maxContextTokens = MAX_CONTEXT_TOKENS): SynthesizedPatch | null {
+    const tokens = tokenize(source);
+    const { edit, lo, hi } = snapToTokens(source, tokens, rawEdit);
+    const spans = computeVolatileSpans(source, detectRequireParam(source));
+    const maxBefore = Math.min(lo, maxContextTokens);
+    const maxAfter = Math.min(tokens.length - hi, maxContextTokens);
+
+    const attempts: Array<[number, number]> = [];
+    for (let b = 1; b <= maxBefore; b++) attempts.push([b, 0]);
+    for (let a = 1; a <= maxAfter; a++) attempts.push([Math.min(a, maxBefore), a]);
+
+    let fallback: [Built, number, number] | null = null;
+    for (const [before, after] of attempts) {
+        const built = build(source, tokens, spans, edit, lo, hi, before, after);
+        const at = before ? tokens[lo - before].start : edit.start;
+        if (!landsOnce(source, built.pattern, at)) continue;
+        if (!fallback || built.unresolved.length < fallback[0].unresolved.length) fallback = [built, before, after];
+        if (!built.unresolved.length) break;
+    }
+    if (!fallback) return null;
+
+    const [built, before, after] = fallback;
+    const expected = source.slice(0, edit.start) + edit.insert + source.slice(edit.end);
+    const actual = source.replace(new RegExp(expandIi(built.pattern)), built.replace);
+    return {
+        match: built.pattern,
+        replace: built.replace,
+        captures: built.captures,
+        contextTokens: { before, after },
+        unresolvedIdents: built.unresolved,
+        exact: actual === expected,
+    };
+}
@@ -0,0 +1,80 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { applyPatchEntry, locatePatchesArray, unifiedDiff } from "./patchWriteBack";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const PLUGIN = `export default definePlugin({
+    name: "Example",
+    patches: [
+        {
+            find: "a\${b}",
+            replacement: { match: /x(\\i)/, replace: \`\${1}\` }
+        },
+        {
+            find: "second",
+            replacement: [{ match: /y/, replace: "z" }],
+        },
+    ],
+    start() {}
+});
+`;
+
+const SPEC = { find: "new", match: { source: "(\\i)\\.new", flags: "" }, replace: "$1" };
+
+function evalPatches(source: string) {
+    const body = source.replace("export default definePlugin(", "return (");
+    return new Function(body)().patches;
+}
+
+check("locatePatchesArray splits top-level entries despite nesting and templates", () => {
+    const array = locatePatchesArray(PLUGIN)!;
+    assert.strictEqual(array.entries.length, 2);
+    assert.strictEqual(array.indent, "        ");
+    assert.strictEqual(array.baseIndent, "    ");
+    assert.ok(PLUGIN.slice(array.entries[1].start, array.entries[1].end).startsWith("{\n            find: \"second\""));
+    assert.strictEqual(locatePatchesArray("definePlugin({ name: \"x\" })"), null);
+});
+
+check("applyPatchEntry inserts, appends and overwrites by index", () => {
+    const inserted = applyPatchEntry(PLUGIN, SPEC, 1) as { source: string };
+    assert.deepStrictEqual(evalPatches(inserted.source).map((p: { find: string }) => p.find), ["a${b}", "new", "second"]);
+    assert.ok(inserted.source.includes("\n        {\n            find: \"new\",\n            replacement: {\n                match: /(\\i)\\.new/,"));
+
+    const appended = applyPatchEntry(PLUGIN, SPEC) as { source: string; index: number };
+    assert.strictEqual(appended.index, 2);
+    assert.deepStrictEqual(evalPatches(appended.source).map((p: { find: string }) => p.find), ["a${b}", "second", "new"]);
+
+    const overwritten = applyPatchEntry(PLUGIN, SPEC, 0, true) as { source: string };
+    assert.deepStrictEqual(evalPatches(overwritten.source).map((p: { find: string }) => p.find), ["new", "second"]);
+
+    assert.strictEqual(applyPatchEntry(PLUGIN, SPEC, 2, true), "indexOutOfRange");
+    assert.strictEqual(applyPatchEntry(PLUGIN, SPEC, 5), "indexOutOfRange");
+    assert.strictEqual(applyPatchEntry("definePlugin({})", SPEC), "noPatchesArray");
+});
+
+check("applyPatchEntry fills an empty array at the right indent", () => {
+    const { source } = applyPatchEntry("definePlugin({\n    patches: [],\n})", SPEC) as { source: string };
+    assert.strictEqual(source.split("\n").slice(0, 4).join("\n"), "definePlugin({\n    patches: [\n        {\n            find: \"new\",");
+    assert.ok(source.endsWith("        }\n    ],\n})"));
+});
+
+check("unifiedDiff emits one hunk with context around the change", () => {
+    const before = "a\nb\nc\nd\ne\nf\ng\nh";
+    const after = "a\nb\nc\nd\nX\nY\nf\ng\nh";
+    assert.strictEqual(unifiedDiff(before, after, "p.ts", 2), "--- a/p.ts\n+++ b/p.ts\n@@ -3,5 +3,6 @@\n c\n d\n-e\n+X\n+Y\n f\n g");
+    assert.strictEqual(unifiedDiff(before, before, "p.ts"), "");
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,97 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { formatPatchEntry, type PatchCodeSpec } from "./patchCode";
+import { tokenize, tokenText } from "./tokenizer";
+
+export interface PatchesArray {
+    readonly open: number;
+    readonly close: number;
+    readonly entries: ReadonlyArray<{ readonly start: number; readonly end: number }>;
+    readonly indent: string;
+    readonly baseIndent: string;
+}
+
+export type WriteBackFailure = "noPatchesArray" | "indexOutOfRange";
+
+const INDENT = "    ";
+const DIFF_CONTEXT = 3;
+const OPENERS = new Set(["[", "{", "("]);
+const CLOSERS = new Set(["]", "}", ")"]);
+
+function lineIndent(source: string, at: number): string {
+    const lineStart = source.lastIndexOf("\n", at - 1) + 1;
+    return /^[ \t]*/.exec(source.slice(lineStart, at))![0];
+}
+
+export function locatePatchesArray(source: string): PatchesArray | null {
+    const tokens = tokenize(source);
+    const text = (i: number) => tokenText(source, tokens[i]);
+    let i = tokens.findIndex((t, k) => t.kind === "ident" && text(k) === "patches" && text(k + 1) === ":" && text(k + 2) === "[");
+    if (i < 0) return null;
+
+    const baseIndent = lineIndent(source, tokens[i].start);
+    const open = tokens[i + 2].start;
+    const entries: Array<{ start: number; end: number }> = [];
+    let depth = 0;
+    let first = -1;
+    for (i += 3; i < tokens.length; i++) {
+        const t = text(i);
+        if (depth === 0 && (t === "," || t === "]")) {
+            if (first >= 0) entries.push({ start: tokens[first].start, end: tokens[i - 1].end });
+            first = -1;
+            if (t === "]") {
+                const indent = entries.length ? lineIndent(source, entries[0].start) : baseIndent + INDENT;
+                return { open, close: tokens[i].start, entries, indent, baseIndent };
+            }
+            continue;
+        }
+        if (first < 0) first = i;
+        if (tokens[i].kind === "template") depth += (t.endsWith("${") ? 1 : 0) - (t.startsWith("}") ? 1 : 0);
+        else if (OPENERS.has(t)) depth++;
+        else if (CLOSERS.has(t)) depth--;
+    }
+    return null;
+}
+
+export function applyPatchEntry(source: string, spec: PatchCodeSpec, index?: number, overwrite = false): { source: string; index: number } | WriteBackFailure {
+    const array = locatePatchesArray(source);
+    if (!array) return "noPatchesArray";
+    const { entries, indent } = array;
+    const at = index ?? entries.length;
+    if (at < 0 || at > entries.length || (overwrite && at === entries.length)) return "indexOutOfRange";
+
+    const entry = formatPatchEntry(spec, indent).slice(indent.length);
+    const splice = (start: number, end: number, insert: string) => ({ source: source.slice(0, start) + insert + source.slice(end), index: at });
+    if (overwrite) return splice(entries[at].start, entries[at].end, entry);
+    if (at < entries.length) return splice(entries[at].start, entries[at].start, `${entry},\n${indent}`);
+    if (entries.length) return splice(entries[at - 1].end, entries[at - 1].end, `,\n${indent}${entry}`);
+    return splice(array.open + 1, array.close, `\n${indent}${entry}\n${array.baseIndent}`);
+}
+
+export function unifiedDiff(before: string, after: string, path: string, context = DIFF_CONTEXT): string {
+    if (before === after) return "";
+    const a = before.split("\n");
+    const b = after.split("\n");
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const from = Math.max(0, prefix - context);
+    const aEnd = Math.min(a.length, a.length - suffix + context);
+    const bEnd = Math.min(b.length, b.length - suffix + context);
+    const range = (start: number, count: number) => `${count ? start + 1 : start},${count}`;
+    return [
+        `--- a/${path}`,
+        `+++ b/${path}`,
+        `@@ -${range(from, aEnd - from)} +${range(from, bEnd - from)} @@`,
+        ...a.slice(from, prefix).map(l => " " + l),
+        ...a.slice(prefix, a.length - suffix).map(l => "-" + l),
+        ...b.slice(prefix, b.length - suffix).map(l => "+" + l),
+        ...a.slice(a.length - suffix, aEnd).map(l => " " + l),
+    ].join("\n");
+}
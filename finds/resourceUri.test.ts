@@ -0,0 +1,57 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { parseResourceUri, type ResourceRef, resourceUri } from "./resourceUri";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+check("parses module uris with and without the original variant", () => {
+    assert.deepStrictEqual(parseResourceUri("discord://module/123456"), { kind: "module", id: "123456", original: false });
+    assert.deepStrictEqual(parseResourceUri("discord://module/123456/original"), { kind: "module", id: "123456", original: true });
+});
+
+check("parses store and intl uris, decoding percent escapes", () => {
+    assert.deepStrictEqual(parseResourceUri("discord://store/UserStore"), { kind: "store", name: "UserStore" });
+    assert.deepStrictEqual(parseResourceUri("discord://intl/USER_SETTINGS"), { kind: "intl", key: "USER_SETTINGS" });
+    assert.deepStrictEqual(parseResourceUri("discord://intl/aB%2Fx%2B9"), { kind: "intl", key: "aB/x+9" });
+});
+
+check("rejects foreign schemes, unknown kinds and malformed paths", () => {
+    for (const bad of [
+        "https://module/1",
+        "discord://module",
+        "discord://module/",
+        "discord://module/1/patched",
+        "discord://module/1/original/x",
+        "discord://module/a b",
+        "discord://store/",
+        "discord://store/1Store",
+        "discord://store/User%Store",
+        "discord://intl/",
+        "discord://intl/<script>",
+        "discord://channel/1",
+        42,
+    ]) assert.strictEqual(parseResourceUri(bad), null, String(bad));
+});
+
+check("resourceUri round-trips through parseResourceUri", () => {
+    const refs: ResourceRef[] = [
+        { kind: "module", id: "99", original: false },
+        { kind: "module", id: "99", original: true },
+        { kind: "store", name: "GuildStore" },
+        { kind: "intl", key: "aB/x+9" },
+    ];
+    for (const ref of refs) assert.deepStrictEqual(parseResourceUri(resourceUri(ref)), ref);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,53 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const RESOURCE_SCHEME = "discord://";
+
+export type ResourceRef =
+    | { readonly kind: "module"; readonly id: string; readonly original: boolean }
+    | { readonly kind: "store"; readonly name: string }
+    | { readonly kind: "intl"; readonly key: string };
+
+const MODULE_ID_RE = /^[\w-]{1,32}$/;
+const STORE_NAME_RE = /^[A-Za-z][\w$]{0,80}$/;
+const INTL_KEY_RE = /^[\w+/]{1,120}$/;
+
+function decode(segment: string): string | null {
+    try { return decodeURIComponent(segment); } catch { return null; }
+}
+
+export function parseResourceUri(uri: unknown): ResourceRef | null {
+    if (typeof uri !== "string" || !uri.startsWith(RESOURCE_SCHEME)) return null;
+    const rest = uri.slice(RESOURCE_SCHEME.length);
+    const slash = rest.indexOf("/");
+    if (slash < 0) return null;
+    const kind = rest.slice(0, slash);
+    const path = rest.slice(slash + 1);
+
+    if (kind === "module") {
+        const [id, variant, ...extra] = path.split("/");
+        if (extra.length || !MODULE_ID_RE.test(id)) return null;
+        if (variant !== undefined && variant !== "original") return null;
+        return { kind, id, original: variant === "original" };
+    }
+    if (kind === "store") {
+        const name = decode(path);
+        return name && STORE_NAME_RE.test(name) ? { kind, name } : null;
+    }
+    if (kind === "intl") {
+        const key = decode(path);
+        return key && INTL_KEY_RE.test(key) ? { kind, key } : null;
+    }
+    return null;
+}
+
+export function resourceUri(ref: ResourceRef): string {
+    switch (ref.kind) {
+        case "module": return `${RESOURCE_SCHEME}module/${ref.id}${ref.original ? "/original" : ""}`;
+        case "store": return `${RESOURCE_SCHEME}store/${encodeURIComponent(ref.name)}`;
+        case "intl": return `${RESOURCE_SCHEME}intl/${encodeURIComponent(ref.key)}`;
+    }
+}
@@ -0,0 +1,57 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { arrayOf, bool, checkShape, formatDrift, int, nullable, obj, oneOf, type ShapeOf, str } from "./resultShape";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const PATCH = obj({ index: int, status: oneOf("APPLIED", "FIND_DEAD") }, { note: str });
+const RESULT = obj({ plugin: str, enabled: bool, hint: nullable(str), patches: arrayOf(PATCH) }, { findDead: int });
+
+check("builders emit plain JSON schema with required keys only when there are some", () => {
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(PATCH)), {
+        type: "object",
+        properties: { index: { type: "integer" }, status: { type: "string", enum: ["APPLIED", "FIND_DEAD"] }, note: { type: "string" } },
+        required: ["index", "status"],
+    });
+    assert.deepStrictEqual(obj({}, { a: str }), { type: "object", properties: { a: { type: "string" } } });
+    assert.deepStrictEqual(nullable(oneOf("a")), { type: ["string", "null"], enum: ["a", null] });
+    const typed: ShapeOf<typeof RESULT> = { plugin: "x", enabled: true, hint: null, patches: [{ index: 0, status: "APPLIED" }] };
+    assert.strictEqual(typed.findDead, undefined);
+});
+
+check("a conforming result has no drift, undefined keys count as absent", () => {
+    assert.deepStrictEqual(checkShape({ plugin: "x", enabled: false, hint: "h", patches: [], findDead: undefined }, RESULT), []);
+    assert.deepStrictEqual(checkShape({ plugin: "x", enabled: false, hint: null, patches: [{ index: 1, status: "FIND_DEAD", note: "n" }], findDead: 1 }, RESULT), []);
+});
+
+check("missing, mistyped and undeclared keys are reported with their path", () => {
+    const drift = checkShape({ plugin: 1, hint: null, patches: [], extra: true }, RESULT);
+    assert.deepStrictEqual(drift, [
+        { path: "enabled", message: "missing" },
+        { path: "plugin", message: "expected string, got number" },
+        { path: "extra", message: "not declared" },
+    ]);
+    assert.strictEqual(formatDrift(drift), "enabled: missing; plugin: expected string, got number; extra: not declared");
+});
+
+check("array items are checked against their shape and repeated drift is reported once", () => {
+    const drift = checkShape({ plugin: "x", enabled: true, hint: null, patches: [{ index: 0.5, status: "GONE" }, { index: 1.5, status: "APPLIED" }] }, RESULT);
+    assert.deepStrictEqual(drift, [
+        { path: "patches[].index", message: "expected integer, got number" },
+        { path: "patches[].status", message: "\"GONE\" is not one of \"APPLIED\", \"FIND_DEAD\"" },
+    ]);
+    assert.deepStrictEqual(checkShape("text", RESULT), [{ path: "result", message: "expected object, got string" }]);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,119 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type ShapeType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+export interface ShapeNode {
+    readonly type?: ShapeType | readonly ShapeType[];
+    readonly enum?: readonly unknown[];
+    readonly items?: ShapeNode;
+    readonly properties?: Readonly<Record<string, ShapeNode>>;
+    readonly required?: readonly string[];
+}
+
+export interface Shape<T> extends ShapeNode {
+    readonly __result?: () => T;
+}
+
+export type ShapeOf<S> = S extends { readonly __result?: () => infer T } ? T : never;
+
+type Fields = Readonly<Record<string, Shape<unknown>>>;
+type Fill<T> = { [K in keyof T]: T[K] };
+type ObjectOf<R extends Fields, O extends Fields> = Fill<{ [K in keyof R]: ShapeOf<R[K]> } & { [K in keyof O]?: ShapeOf<O[K]> }>;
+
+export interface ShapeDrift {
+    readonly path: string;
+    readonly message: string;
+}
+
+const leaf = <T>(type: ShapeType): Shape<T> => ({ type });
+
+export const str = leaf<string>("string");
+export const num = leaf<number>("number");
+export const int = leaf<number>("integer");
+export const bool = leaf<boolean>("boolean");
+export const record = leaf<Record<string, unknown>>("object");
+export const list = leaf<readonly unknown[]>("array");
+export const anyValue: Shape<unknown> = {};
+
+export const oneOf = <const T extends string>(...values: T[]): Shape<T> => ({ type: "string", enum: values });
+export const arrayOf = <T>(items: Shape<T>): Shape<readonly T[]> => ({ type: "array", items });
+
+export function either<A, B>(a: Shape<A>, b: Shape<B>): Shape<A | B> {
+    if (a.type == null || b.type == null) return {};
+    return { type: [...new Set([a.type, b.type].flat())] };
+}
+
+export function nullable<T>(node: Shape<T>): Shape<T | null> {
+    if (node.type == null) return node;
+    const types = typeof node.type === "string" ? [node.type] : node.type;
+    return { ...node, type: [...types, "null"], ...(node.enum && { enum: [...node.enum, null] }) };
+}
+
+export function obj<R extends Fields, O extends Fields = Record<never, never>>(required: R, optional?: O): Shape<ObjectOf<R, O>> {
+    const keys = Object.keys(required);
+    return { type: "object", properties: { ...required, ...optional }, ...(keys.length && { required: keys }) };
+}
+
+function typeOf(value: unknown): ShapeType {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    const t = typeof value;
+    return t === "number" || t === "boolean" || t === "object" ? t : "string";
+}
+
+function typeMatches(value: unknown, type: ShapeType): boolean {
+    if (type === "integer") return Number.isInteger(value);
+    return typeOf(value) === type;
+}
+
+function walk(value: unknown, node: ShapeNode, path: string, out: ShapeDrift[]): void {
+    const at = path || "result";
+    if (node.type != null) {
+        const types: readonly ShapeType[] = typeof node.type === "string" ? [node.type] : node.type;
+        if (!types.some(t => typeMatches(value, t))) {
+            out.push({ path: at, message: `expected ${types.join(" | ")}, got ${typeOf(value)}` });
+            return;
+        }
+    }
+    if (node.enum && !node.enum.includes(value)) {
+        out.push({ path: at, message: `${JSON.stringify(value)} is not one of ${node.enum.map(v => JSON.stringify(v)).join(", ")}` });
+        return;
+    }
+    if (Array.isArray(value)) {
+        if (node.items) for (const item of value) walk(item, node.items, `${path}[]`, out);
+        return;
+    }
+    if (value === null || typeof value !== "object" || !node.properties) return;
+
+    const o = value as Record<string, unknown>;
+    for (const key of node.required ?? []) {
+        if (o[key] === undefined) out.push({ path: path ? `${path}.${key}` : key, message: "missing" });
+    }
+    for (const [key, v] of Object.entries(o)) {
+        if (v === undefined) continue;
+        const child = path ? `${path}.${key}` : key;
+        const prop = Object.hasOwn(node.properties, key) ? node.properties[key] : undefined;
+        if (prop) walk(v, prop, child, out);
+        else out.push({ path: child, message: "not declared" });
+    }
+}
+
+export function checkShape(value: unknown, node: ShapeNode): ShapeDrift[] {
+    const out: ShapeDrift[] = [];
+    walk(value, node, "", out);
+    const seen = new Set<string>();
+    return out.filter(d => {
+        const key = `${d.path}\u0000${d.message}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+export function formatDrift(drift: readonly ShapeDrift[]): string {
+    return drift.map(d => `${d.path}: ${d.message}`).join("; ");
+}
@@ -0,0 +1,53 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { fillPrompt, markdownSection } from "./skillPrompt";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const DOC = [
+    "# Title",
+    "intro",
+    "## 1. Locate",
+    "locate body",
+    "### 1a. From an element",
+    "element body",
+    "```",
+    "# not a heading",
+    "```",
+    "### 1b. From text",
+    "text body",
+    "## 2. Understand",
+    "understand body",
+].join("\n");
+
+check("section runs until the next heading of the same or higher level", () => {
+    assert.strictEqual(markdownSection(DOC, "1. Locate"), DOC.split("\n").slice(2, 11).join("\n"));
+});
+
+check("subsections stop at their sibling, headings inside code fences are ignored", () => {
+    assert.strictEqual(markdownSection(DOC, "1a."), "### 1a. From an element\nelement body\n```\n# not a heading\n```");
+    assert.strictEqual(markdownSection(DOC, "not a heading"), null);
+});
+
+check("the last section runs to the end, a missing heading returns null", () => {
+    assert.strictEqual(markdownSection(DOC, "2. Understand"), "## 2. Understand\nunderstand body");
+    assert.strictEqual(markdownSection(DOC, "3. Nope"), null);
+});
+
+check("fillPrompt substitutes known placeholders and leaves the rest", () => {
+    assert.strictEqual(fillPrompt("fix {pluginName} near {find}", { pluginName: "Foo" }), "fix Foo near {find}");
+    assert.strictEqual(fillPrompt("{a}{a}", { a: "$1" }), "$1$1");
+});
+
+console.log(`\nall ${passed} checks passed`);
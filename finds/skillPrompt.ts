@@ -0,0 +1,35 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+const HEADING_RE = /^(#{1,6})\s+(.*)$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const PLACEHOLDER_RE = /\{(\w+)\}/g;
+
+export function markdownSection(markdown: string, heading: string): string | null {
+    const lines = markdown.split("\n");
+    let start = -1;
+    let level = 0;
+    let inFence = false;
+    for (let i = 0; i < lines.length; i++) {
+        if (FENCE_RE.test(lines[i])) inFence = !inFence;
+        if (inFence) continue;
+        const m = HEADING_RE.exec(lines[i]);
+        if (!m) continue;
+        if (start < 0) {
+            if (m[2].trim().startsWith(heading)) {
+                start = i;
+                level = m[1].length;
+            }
+        } else if (m[1].length <= level) {
+            return lines.slice(start, i).join("\n").trim();
+        }
+    }
+    return start < 0 ? null : lines.slice(start).join("\n").trim();
+}
+
+export function fillPrompt(template: string, args: Readonly<Record<string, string>>): string {
+    return template.replace(PLACEHOLDER_RE, (whole, name: string) => Object.hasOwn(args, name) ? args[name] : whole);
+}
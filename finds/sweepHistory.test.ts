@@ -0,0 +1,62 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { appendRun, diffRuns, findRegressions, parseHistory, serializeHistory, type SweepPatch, type SweepRun } from "./sweepHistory";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+function run(at: number, build: string, patches: SweepPatch[]): SweepRun {
+    return { at, build, buildNumber: at * 10, trigger: "launch", patches, broken: 0, consoleErrors: 0 };
+}
+
+const p = (plugin: string, index: number, find: string, status: string): SweepPatch => ({ plugin, index, find, status });
+
+check("diffRuns reports status changes, additions and removals keyed by plugin and find", () => {
+    const a = run(1, "h1", [p("A", 0, "x", "APPLIED"), p("A", 1, "x", "APPLIED"), p("B", 0, "y", "APPLIED")]);
+    const b = run(2, "h2", [p("A", 0, "x", "APPLIED"), p("A", 1, "x", "FIND_DEAD"), p("C", 0, "z", "APPLIED")]);
+    assert.deepStrictEqual(diffRuns(a, b), [
+        { plugin: "A", index: 1, find: "x", from: "APPLIED", to: "FIND_DEAD" },
+        { plugin: "C", index: 0, find: "z", from: null, to: "APPLIED" },
+        { plugin: "B", index: 0, find: "y", from: "APPLIED", to: null },
+    ]);
+    assert.deepStrictEqual(diffRuns(a, a), []);
+});
+
+check("findRegressions points at the first run after the last healthy one", () => {
+    const runs = [
+        run(1, "h1", [p("A", 0, "x", "APPLIED"), p("B", 0, "y", "NOT_APPLIED")]),
+        run(2, "h2", [p("A", 0, "x", "FIND_DEAD"), p("B", 0, "y", "NOT_APPLIED")]),
+        run(3, "h2", [p("A", 0, "x", "FIND_DEAD"), p("B", 0, "y", "NOT_APPLIED")]),
+    ];
+    const [a, b] = findRegressions(runs);
+    assert.deepStrictEqual(a.since, { at: 2, build: "h2", buildNumber: 20 });
+    assert.deepStrictEqual(a.lastGood, { at: 1, build: "h1", buildNumber: 10 });
+    assert.strictEqual(b.lastGood, null);
+    assert.strictEqual(b.since.at, 1);
+    assert.deepStrictEqual(findRegressions([]), []);
+});
+
+check("appendRun keeps only the newest runs", () => {
+    const runs = [1, 2, 3].map(n => run(n, "h", []));
+    assert.deepStrictEqual(appendRun(runs, run(4, "h", []), 3).map(r => r.at), [2, 3, 4]);
+});
+
+check("parseHistory round-trips and rejects bad versions or shapes", () => {
+    const runs = [run(2, "h2", [p("A", 0, "x", "APPLIED")]), run(1, "h1", [])];
+    assert.deepStrictEqual(parseHistory(serializeHistory(runs))!.map(r => r.at), [1, 2]);
+    assert.strictEqual(parseHistory("{"), null);
+    assert.strictEqual(parseHistory(JSON.stringify({ version: 99, runs: [] })), null);
+    assert.deepStrictEqual(parseHistory(JSON.stringify({ version: 1, runs: [{ at: 1 }, null] })), []);
+});
+
+console.log(`\nall ${passed} checks passed`);
@@ -0,0 +1,121 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const SWEEP_HISTORY_VERSION = 1;
+
+export interface SweepPatch {
+    readonly plugin: string;
+    readonly index: number;
+    readonly find: string;
+    readonly status: string;
+}
+
+export interface SweepRun {
+    readonly at: number;
+    readonly build: string | null;
+    readonly buildNumber: number | null;
+    readonly trigger: "launch" | "reload" | "manual";
+    readonly patches: readonly SweepPatch[];
+    readonly broken: number;
+    readonly consoleErrors: number;
+}
+
+export interface RunRef {
+    readonly at: number;
+    readonly build: string | null;
+    readonly buildNumber: number | null;
+}
+
+export interface StatusChange {
+    readonly plugin: string;
+    readonly index: number;
+    readonly find: string;
+    readonly from: string | null;
+    readonly to: string | null;
+}
+
+export interface Regression {
+    readonly plugin: string;
+    readonly index: number;
+    readonly find: string;
+    readonly status: string;
+    readonly since: RunRef;
+    readonly lastGood: RunRef | null;
+}
+
+const HEALTHY = "APPLIED";
+const TRIGGERS: ReadonlySet<string> = new Set(["launch", "reload", "manual"]);
+
+export const runRef = (run: SweepRun): RunRef => ({ at: run.at, build: run.build, buildNumber: run.buildNumber });
+
+function keyed(run: SweepRun): Map<string, SweepPatch> {
+    const out = new Map<string, SweepPatch>();
+    const seen = new Map<string, number>();
+    for (const p of run.patches) {
+        const base = `${p.plugin}\u0000${p.find}`;
+        const n = seen.get(base) ?? 0;
+        seen.set(base, n + 1);
+        out.set(`${base}\u0000${n}`, p);
+    }
+    return out;
+}
+
+export function diffRuns(prev: SweepRun, next: SweepRun): StatusChange[] {
+    const before = keyed(prev);
+    const after = keyed(next);
+    const changes: StatusChange[] = [];
+    for (const [key, p] of after) {
+        const old = before.get(key);
+        if (old?.status !== p.status) changes.push({ plugin: p.plugin, index: p.index, find: p.find, from: old?.status ?? null, to: p.status });
+    }
+    for (const [key, p] of before) {
+        if (!after.has(key)) changes.push({ plugin: p.plugin, index: p.index, find: p.find, from: p.status, to: null });
+    }
+    return changes;
+}
+
+export function findRegressions(runs: readonly SweepRun[]): Regression[] {
+    if (!runs.length) return [];
+    const keyedRuns = runs.map(keyed);
+    const out: Regression[] = [];
+    for (const [key, p] of keyedRuns[keyedRuns.length - 1]) {
+        if (p.status === HEALTHY) continue;
+        let good = keyedRuns.length - 2;
+        while (good >= 0 && keyedRuns[good].get(key)?.status !== HEALTHY) good--;
+        const since = good >= 0 ? runs[good + 1] : runs[0];
+        out.push({ plugin: p.plugin, index: p.index, find: p.find, status: p.status, since: runRef(since), lastGood: good >= 0 ? runRef(runs[good]) : null });
+    }
+    return out;
+}
+
+export function appendRun(runs: readonly SweepRun[], run: SweepRun, max: number): SweepRun[] {
+    return [...runs, run].slice(-max);
+}
+
+export function serializeHistory(runs: readonly SweepRun[]): string {
+    return JSON.stringify({ version: SWEEP_HISTORY_VERSION, runs });
+}
+
+function isRun(r: unknown): r is SweepRun {
+    if (!r || typeof r !== "object") return false;
+    const run = r as Record<string, unknown>;
+    return typeof run.at === "number"
+        && (run.build === null || typeof run.build === "string")
+        && (run.buildNumber === null || typeof run.buildNumber === "number")
+        && typeof run.trigger === "string" && TRIGGERS.has(run.trigger)
+        && typeof run.broken === "number" && typeof run.consoleErrors === "number"
+        && Array.isArray(run.patches)
+        && run.patches.every(p => p && typeof p.plugin === "string" && typeof p.index === "number" && typeof p.find === "string" && typeof p.status === "string");
+}
+
+export function parseHistory(text: string): SweepRun[] | null {
+    let data: unknown;
+    try { data = JSON.parse(text); } catch { return null; }
+    if (!data || typeof data !== "object") return null;
+    const { version, runs } = data as { version?: unknown; runs?: unknown };
+    if (version !== SWEEP_HISTORY_VERSION || !Array.isArray(runs)) return null;
+    return runs.filter(isRun).sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,66 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { createTimedSlot } from "./timedSlot";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+function fakeTimers() {
+    const timers = new Map<number, () => void>();
+    let seq = 0;
+    return {
+        setTimer: (fn: () => void) => { timers.set(++seq, fn); return seq; },
+        clearTimer: (handle: unknown) => { timers.delete(handle as number); },
+        fire() {
+            const due = [...timers.values()];
+            timers.clear();
+            due.forEach(fn => fn());
+        },
+        get pending() { return timers.size; },
+    };
+}
+
+check("loading the same build twice reads it once, and the value is released when the timer fires", () => {
+    const t = fakeTimers();
+    const slot = createTimedSlot<string, { build: string }>({ ttlMs: 100, ...t });
+    let reads = 0;
+    const read = (build: string) => {
+        reads++;
+        return { build };
+    };
+    const load = (build: string) => slot.get(build) ?? slot.set(build, read(build));
+
+    const first = load("a");
+    assert.strictEqual(load("a"), first);
+    assert.strictEqual(reads, 1);
+    assert.strictEqual(t.pending, 1, "every use restarts the one release timer");
+    assert.ok(slot.held);
+
+    t.fire();
+    assert.ok(!slot.held);
+    assert.notStrictEqual(load("a"), first);
+    assert.strictEqual(reads, 2);
+});
+
+check("another key replaces the held value and clear drops it with its timer", () => {
+    const t = fakeTimers();
+    const slot = createTimedSlot<string, number>({ ttlMs: 100, ...t });
+    slot.set("a", 1);
+    slot.set("b", 2);
+    assert.strictEqual(slot.get("a"), undefined);
+    assert.strictEqual(slot.get("b"), 2);
+    slot.clear();
+    assert.deepStrictEqual([slot.held, t.pending], [false, 0]);
+});
+
+console.log(`\nall ${passed} checks passed`);
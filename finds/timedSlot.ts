@@ -0,0 +1,48 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface TimedSlotOptions {
+    readonly ttlMs: number;
+    readonly setTimer?: (fn: () => void, ms: number) => unknown;
+    readonly clearTimer?: (handle: unknown) => void;
+}
+
+export interface TimedSlot<K, V> {
+    get(key: K): V | undefined;
+    set(key: K, value: V): V;
+    clear(): void;
+    readonly held: boolean;
+}
+
+export function createTimedSlot<K, V>(opts: TimedSlotOptions): TimedSlot<K, V> {
+    const setTimer = opts.setTimer ?? ((fn, ms) => setTimeout(fn, ms));
+    const clearTimer = opts.clearTimer ?? (handle => clearTimeout(handle as ReturnType<typeof setTimeout>));
+    let entry: { key: K; value: V } | null = null;
+    let timer: unknown = null;
+
+    const release = () => {
+        if (timer != null) clearTimer(timer);
+        timer = null;
+        entry = null;
+    };
+    const keep = (key: K, value: V) => {
+        if (timer != null) clearTimer(timer);
+        entry = { key, value };
+        timer = setTimer(release, opts.ttlMs);
+        return value;
+    };
+
+    return {
+        get(key) {
+            return entry && entry.key === key ? keep(key, entry.value) : undefined;
+        },
+        set: keep,
+        clear: release,
+        get held() {
+            return entry != null;
+        },
+    };
+}
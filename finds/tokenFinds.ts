@@ -45,7 +45,7 @@ function overlapsVolatile(spans: readonly Span[], start: number, end: number): b
     return ans >= 0 && spans[ans][1] > start;
 }
 
-function isMinifiedIdent(source: string, tokens: readonly Token[], i: number): boolean {
+export function isMinifiedIdent(source: string, tokens: readonly Token[], i: number): boolean {
     const t = tokens[i];
     if (t.kind !== "ident") return false;
     if (t.end - t.start >= MIN_STABLE_IDENT_LEN) return false;
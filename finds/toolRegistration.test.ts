@@ -0,0 +1,97 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "node:assert";
+
+import { createToolOwners, registrationProblem, type StoppablePlugin, type ToolRegistrationShape } from "./toolRegistration";
+
+let passed = 0;
+function check(name: string, fn: () => void) {
+    fn();
+    passed++;
+    console.log(`  ok  ${name}`);
+}
+
+const lookup = { isPlugin: (name: string) => name === "Logger", isTaken: (name: string) => name === "module" };
+const VALID = {
+    plugin: "Logger",
+    definition: { name: "messageLog", description: "Search deleted messages", inputSchema: { type: "object", properties: { query: { type: "string" } } } },
+    handler: () => null,
+    readOnly: true,
+    cacheTtlMs: 5000,
+    batchable: true,
+} satisfies ToolRegistrationShape;
+
+const problem = (patch: Partial<ToolRegistrationShape>) => registrationProblem({ ...VALID, ...patch }, lookup);
+const withSchema = (inputSchema: object) => problem({ definition: { ...VALID.definition, inputSchema } });
+
+check("a complete read-only registration is accepted", () => {
+    assert.strictEqual(registrationProblem(VALID, lookup), null);
+    assert.strictEqual(withSchema({ type: "object", properties: {} }), null);
+    assert.strictEqual(problem({ readOnly: undefined, batchable: undefined }), null);
+});
+
+check("unknown plugins, taken or malformed names and bad handlers are rejected", () => {
+    assert.match(problem({ plugin: "Nope" })!, /loaded plugin/);
+    assert.match(registrationProblem(null, lookup)!, /loaded plugin/);
+    assert.match(problem({ definition: { ...VALID.definition, name: "module" } })!, /already exists/);
+    assert.match(problem({ definition: { ...VALID.definition, name: "9bad" } })!, /definition.name/);
+    assert.match(problem({ handler: "x" })!, /handler/);
+    assert.match(problem({ cacheTtlMs: -1 })!, /cacheTtlMs/);
+});
+
+check("an object schema without properties is rejected so argument checks never see it", () => {
+    assert.match(withSchema({ type: "object" })!, /properties must be an object/);
+    assert.match(withSchema({ type: "object", properties: [] })!, /properties must be an object/);
+    assert.match(withSchema({ type: "array" })!, /type "object"/);
+});
+
+check("batchable is refused for tools that are not read-only", () => {
+    assert.match(problem({ readOnly: undefined })!, /batchable needs readOnly/);
+    assert.match(problem({ readOnly: false, batchable: ["get"] })!, /batchable needs readOnly/);
+    assert.strictEqual(problem({ readOnly: false, batchable: false }), null);
+});
+
+check("stopping the owning plugin unregisters its tools once and restores its stop", () => {
+    const removed: string[] = [];
+    const owners = createToolOwners(tool => {
+        removed.push(tool);
+        owners.remove(tool);
+    });
+    let stops = 0;
+    const originalStop = () => { stops++; };
+    const logger: StoppablePlugin = { stop: originalStop };
+    const other: StoppablePlugin = {};
+
+    owners.add("a", "Logger", logger);
+    owners.add("b", "Logger", logger);
+    owners.add("c", "Other", other);
+    assert.notStrictEqual(logger.stop, originalStop);
+    assert.strictEqual(owners.remove("b"), true);
+    assert.strictEqual(owners.remove("b"), false);
+
+    logger.stop!.call(logger);
+    assert.deepStrictEqual([stops, removed, logger.stop], [1, ["a"], originalStop]);
+    assert.deepStrictEqual(owners.owned("Other"), ["c"]);
+
+    other.stop!.call(other);
+    assert.deepStrictEqual([removed, other.stop], [["a", "c"], undefined]);
+
+    owners.add("d", "Logger", logger);
+    logger.stop!.call(logger);
+    assert.deepStrictEqual([stops, removed], [2, ["a", "c", "d"]]);
+});
+
+check("a stop that throws still unregisters the plugin's tools", () => {
+    const removed: string[] = [];
+    const owners = createToolOwners(tool => { removed.push(tool); owners.remove(tool); });
+    const plugin: StoppablePlugin = { stop: () => { throw new Error("boom"); } };
+    owners.add("a", "P", plugin);
+    assert.throws(() => plugin.stop!.call(plugin), /boom/);
+    assert.deepStrictEqual(removed, ["a"]);
+});
+
+console.log(`\nall ${passed} checks passed`);
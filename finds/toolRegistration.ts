@@ -0,0 +1,79 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface ToolRegistrationShape {
+    readonly plugin?: unknown;
+    readonly definition?: { readonly name?: unknown; readonly description?: unknown; readonly inputSchema?: { readonly type?: unknown; readonly properties?: unknown } };
+    readonly handler?: unknown;
+    readonly readOnly?: unknown;
+    readonly cacheTtlMs?: unknown;
+    readonly batchable?: unknown;
+}
+
+export interface RegistrationLookup {
+    isPlugin(name: string): boolean;
+    isTaken(name: string): boolean;
+}
+
+export interface StoppablePlugin {
+    stop?: (this: unknown) => unknown;
+}
+
+export interface ToolOwners {
+    add(tool: string, pluginName: string, plugin: StoppablePlugin): void;
+    remove(tool: string): boolean;
+    owned(pluginName: string): string[];
+}
+
+const TOOL_NAME_RE = /^[A-Za-z][\w-]{0,63}$/;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+export function registrationProblem(reg: ToolRegistrationShape | null | undefined, lookup: RegistrationLookup): string | null {
+    const { plugin, definition: def, handler, readOnly, cacheTtlMs, batchable } = reg ?? {};
+    if (typeof plugin !== "string" || !lookup.isPlugin(plugin)) return `plugin must be the name of a loaded plugin, got ${JSON.stringify(plugin)}`;
+    if (!def || typeof def.name !== "string" || !TOOL_NAME_RE.test(def.name)) return "definition.name must start with a letter and use only letters, digits, _ or - (max 64)";
+    if (lookup.isTaken(def.name)) return `a tool named "${def.name}" already exists`;
+    if (typeof def.description !== "string" || !def.description.trim()) return "definition.description required";
+    if (def.inputSchema?.type !== "object") return "definition.inputSchema must be a JSON schema with type \"object\"";
+    if (!isRecord(def.inputSchema.properties)) return "definition.inputSchema.properties must be an object (use {} for a tool without arguments)";
+    if (typeof handler !== "function") return "handler must be a function";
+    if (cacheTtlMs != null && !(typeof cacheTtlMs === "number" && Number.isFinite(cacheTtlMs) && cacheTtlMs >= 0)) return "cacheTtlMs must be a non-negative number";
+    if (batchable != null && typeof batchable !== "boolean" && !(Array.isArray(batchable) && batchable.every(a => typeof a === "string"))) return "batchable must be a boolean or a list of actions";
+    if (batchable && readOnly !== true) return "batchable needs readOnly: true, because batch runs its calls in parallel with other read-only calls";
+    return null;
+}
+
+export function createToolOwners(unregister: (tool: string) => void): ToolOwners {
+    const owners = new Map<string, string>();
+    const watched = new Set<string>();
+
+    const owned = (pluginName: string) => [...owners].filter(([, owner]) => owner === pluginName).map(([tool]) => tool);
+
+    const watch = (pluginName: string, plugin: StoppablePlugin) => {
+        if (watched.has(pluginName)) return;
+        const { stop } = plugin;
+        watched.add(pluginName);
+        plugin.stop = function (this: unknown) {
+            try {
+                return stop?.call(this);
+            } finally {
+                plugin.stop = stop;
+                watched.delete(pluginName);
+                for (const tool of owned(pluginName)) unregister(tool);
+            }
+        };
+    };
+
+    return {
+        add(tool, pluginName, plugin) {
+            owners.set(tool, pluginName);
+            watch(pluginName, plugin);
+        },
+        remove: tool => owners.delete(tool),
+        owned,
+    };
+}
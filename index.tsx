@@ -10,8 +10,13 @@ import { isObject } from "@utils/misc";
 import definePlugin, { OptionType, PluginNative, ReporterTestable } from "@utils/types";
 import { Toasts } from "@webpack/common";
 
-import { getToolTimeout } from "./timeouts";
+import { checkArgs, formatArgErrors } from "./finds/argSchema";
+import { formatDrift } from "./finds/resultShape";
+import { DEFAULT_PORT, isUsablePort, MAX_PORT, MIN_PORT } from "./ports";
+import { getToolTimeout, PROGRESS_TIMEOUT_CAP_MS } from "./timeouts";
+import { initBuildFingerprints } from "./tools/build_delta_tool";
 import { installConsoleCapture, uninstallConsoleCapture } from "./tools/console_tool";
+import { cleanupAllHotPatches } from "./tools/hot_patch_tool";
 import {
     cleanupAllIntercepts,
     cleanupAllModuleWatches,
@@ -23,16 +28,25 @@ import {
     toStructuredContent,
     withTimeout,
 } from "./tools/index";
-import { cacheTtlOf, HANDLERS, isCacheable, TOOLS } from "./tools/registry";
-import { initKeyMapPersistence } from "./tools/utils";
-import { CacheEntry, InitializeParams, MCPRequest, MCPResponse, SessionStats, ToolCallParams, ToolCallResult } from "./types";
+import { outputDrift } from "./tools/outputSchemas";
+import { clearPageCache } from "./tools/pagination";
+import { getPrompt, PROMPTS } from "./tools/prompts";
+import { cacheTtlOf, HANDLERS, isCacheable, isMutatingCall, isReadOnlyCall, TOOLS } from "./tools/registry";
+import { cleanupAllResourceSubscriptions, listResources, readResource, RESOURCE_TEMPLATES, subscribeResource, unsubscribeResource } from "./tools/resources";
+import { cancelRegressionSweep, scheduleRegressionSweep } from "./tools/sweep_tool";
+import { clearSourceIndex, initKeyMapPersistence, rankedSuggestions, warmSourceIndex } from "./tools/utils";
+import { CacheEntry, InitializeParams, JSONValue, MCPRequest, MCPResponse, ServerEndpoint, ServerListenOptions, SessionStats, ToolCallParams, ToolCallResult, ToolContext } from "./types";
 
 const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("./native")>;
 
 const toolCache = new Map<string, CacheEntry>();
+const inflight = new Map<number, AbortController>();
 const MAX_CACHE_ENTRIES = 300;
 const SLOW_TOOL_THRESHOLD_MS = 5000;
 const POLL_BACKOFF = { IDLE_FEW: 5, IDLE_MANY: 20, DELAY_FAST_MS: 2, DELAY_MED_MS: 5, DELAY_SLOW_MS: 10 } as const;
+const PROGRESS = { THROTTLE_MS: 250, YIELD_MS: 50 } as const;
+const MAX_PARALLEL_READ_ONLY = 4;
+const ARG_SUGGESTIONS = 3;
 
 function getCacheKey(tool: string, args: Record<string, unknown>): string {
     return `${tool}:${JSON.stringify(args)}`;
@@ -55,6 +69,7 @@ function getCachedResult(tool: string, args: Record<string, unknown>): unknown {
 function setCachedResult(tool: string, args: Record<string, unknown>, result: unknown): void {
     if (!isCacheable(tool, actionOf(args))) return;
     if (isObject(result) && "error" in result) return;
+    if (isObject(result) && (result as { nextCursor?: unknown }).nextCursor != null) return;
     const key = getCacheKey(tool, args);
     if (toolCache.size >= MAX_CACHE_ENTRIES) {
         const firstKey = toolCache.keys().next().value;
@@ -69,6 +84,29 @@ const settings = definePluginSettings({
         description: "Log incoming MCP requests to console",
         default: false,
     },
+    port: {
+        type: OptionType.NUMBER,
+        description: `Port for the MCP server (${MIN_PORT}-${MAX_PORT}). When it is taken, the next free port of the following nine is used`,
+        default: DEFAULT_PORT,
+        restartNeeded: true,
+        isValid: (value: number) => isUsablePort(value) || `Port must be a whole number from ${MIN_PORT} to ${MAX_PORT}`,
+    },
+    socketPath: {
+        type: OptionType.STRING,
+        description: "Listen on this Unix socket or Windows named pipe instead of a TCP port. Leave empty to use the port",
+        default: "",
+        restartNeeded: true,
+    },
+    checkoutRoot: {
+        type: OptionType.STRING,
+        description: "Absolute path of your Vencord or Equicord dev checkout, so patch.writeBack can edit plugin sources. Leave empty to disable writing",
+        default: "",
+    },
+    regressionSweep: {
+        type: OptionType.BOOLEAN,
+        description: "Shortly after each launch or reload, check that every enabled plugin's patches applied and keep the results for patch.history",
+        default: true,
+    },
 });
 
 function objectResult(obj: unknown, isError?: boolean): ToolCallResult {
@@ -79,22 +117,92 @@ function resultHasError(v: unknown): boolean {
     return isObject(v) && (v as { error?: unknown }).error === true;
 }
 
-const MUTATING_ACTIONS: Readonly<Record<string, ReadonlySet<string>>> = {
-    module: new Set(["loadLazy"]),
-    plugin: new Set(["enable", "disable", "toggle", "setSetting"]),
-};
+function listenOptions(): ServerListenOptions {
+    return { port: settings.store.port, socketPath: settings.store.socketPath };
+}
 
-function isMutatingCall(name: string, action: string | undefined): boolean {
-    if (name === "reloadDiscord") return true;
-    const actions = MUTATING_ACTIONS[name];
-    return !!action && !!actions && actions.has(action);
+function endpointLabel(endpoint: ServerEndpoint | null): string {
+    return endpoint?.url ?? endpoint?.socketPath ?? "?";
 }
 
 function toast(message: string, type: string): void {
     Toasts.show({ id: Toasts.genId(), message, type });
 }
 
-async function executeToolCall(name: string, args: Record<string, unknown>): Promise<ToolCallResult> {
+interface ScheduledTask {
+    readOnly: boolean;
+    start: () => void;
+}
+
+function createScheduler(maxReadOnly: number) {
+    const waiting: ScheduledTask[] = [];
+    let running = 0;
+    let exclusive = false;
+
+    const pump = () => {
+        while (waiting.length && !exclusive) {
+            const next = waiting[0];
+            if (next.readOnly ? running >= maxReadOnly : running > 0) return;
+            waiting.shift();
+            running++;
+            exclusive = !next.readOnly;
+            next.start();
+        }
+    };
+
+    return {
+        run<T>(readOnly: boolean, task: () => Promise<T>): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                waiting.push({
+                    readOnly,
+                    start: () => void task().then(resolve, reject).finally(() => {
+                        running--;
+                        if (!readOnly) exclusive = false;
+                        pump();
+                    }),
+                });
+                pump();
+            });
+        },
+    };
+}
+
+const scheduler = createScheduler(MAX_PARALLEL_READ_ONLY);
+
+function createToolContext(requestId: number, signal: AbortSignal, progressToken: string | number | undefined, extend: () => void): ToolContext {
+    let lastSent = 0;
+    let lastYield = Date.now();
+    let lastProgress = -1;
+    return {
+        signal,
+        async progress(done, total, message) {
+            signal.throwIfAborted();
+            const now = Date.now();
+            if (progressToken != null && done > lastProgress && (now - lastSent >= PROGRESS.THROTTLE_MS || done === total)) {
+                lastSent = now;
+                lastProgress = done;
+                extend();
+                Native.sendNotification({
+                    jsonrpc: "2.0",
+                    method: "notifications/progress",
+                    params: { progressToken, progress: done, ...(total != null ? { total } : {}), ...(message ? { message } : {}) },
+                }, requestId);
+            }
+            if (now - lastYield >= PROGRESS.YIELD_MS) {
+                lastYield = now;
+                await new Promise(r => setTimeout(r, 0));
+                signal.throwIfAborted();
+            }
+        },
+    };
+}
+
+function warnOnDrift(name: string, action: string | undefined, content: unknown): void {
+    const drift = outputDrift(name, action, content);
+    if (drift.length) logger.warn(`${action ? `${name}.${action}` : name} result drifted from its output schema: ${formatDrift(drift)}`);
+}
+
+async function executeToolCall(name: string, args: Record<string, unknown>, ctx: ToolContext): Promise<ToolCallResult> {
     const cached = getCachedResult(name, args);
     if (cached !== null) {
         const result = { ...(cached as object), cached: true };
@@ -105,7 +213,7 @@ async function executeToolCall(name: string, args: Record<string, unknown>): Pro
     if (!handler) return errorResult({ message: `Unknown tool: ${name}` });
 
     try {
-        const result = await handler(args);
+        const result = await handler(args, ctx);
         if (result == null) {
             return objectResult({ warning: `${name} returned no result`, args });
         }
@@ -115,7 +223,9 @@ async function executeToolCall(name: string, args: Record<string, unknown>): Pro
         if (!text || text === "null" || text === "undefined") {
             return objectResult({ warning: `${name} produced empty output`, args });
         }
-        return objectResult(result, resultHasError(result));
+        const response = objectResult(result, resultHasError(result));
+        if (IS_DEV && !response.isError) warnOnDrift(name, actionOf(args), response.structuredContent);
+        return response;
     } catch (error) {
         const message = errMsg(error);
         return errorResult({ message, tool: name, args });
@@ -142,11 +252,11 @@ const sessionStats: SessionStats = {
 };
 
 const rpcResult = (id: MCPResponse["id"], result: unknown): MCPResponse => ({ jsonrpc: "2.0", id, result });
-const rpcError = (id: MCPResponse["id"], code: number, message: string): MCPResponse => ({ jsonrpc: "2.0", id, error: { code, message } });
+const rpcError = (id: MCPResponse["id"], code: number, message: string, data?: JSONValue): MCPResponse => ({ jsonrpc: "2.0", id, error: { code, message, ...(data !== undefined && { data }) } });
 const errorResult = (fields: Record<string, unknown>): ToolCallResult => objectResult({ error: true, ...fields }, true);
 const actionOf = (args?: Record<string, unknown>): string | undefined => args?.action as string | undefined;
 
-async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse | null> {
+async function handleMCPRequest(request: MCPRequest, requestId: number, sessionId: string | null): Promise<MCPResponse | null> {
     const { id } = request;
     sessionStats.requests++;
 
@@ -166,7 +276,7 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse | null
 
             return rpcResult(id, {
                 protocolVersion: negotiated,
-                capabilities: { tools: { listChanged: false } },
+                capabilities: { tools: { listChanged: true }, resources: { subscribe: true, listChanged: false }, prompts: { listChanged: false } },
                 serverInfo: SERVER_INFO,
                 instructions: INSTRUCTIONS,
             });
@@ -180,8 +290,15 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse | null
         case "ping":
             return rpcResult(id, {});
 
-        case "notifications/cancelled":
+        case "notifications/cancelled": {
+            const { requestId: target, reason } = (request.params ?? {}) as { requestId?: number; reason?: string; };
+            const controller = target != null ? inflight.get(target) : undefined;
+            if (controller) {
+                logger.info(`Cancelling request ${target}${reason ? `: ${reason}` : ""}`);
+                controller.abort(new Error(`cancelled by client${reason ? `: ${reason}` : ""}`));
+            }
             return null;
+        }
 
         case "tools/list":
             return rpcResult(id, { tools: TOOLS });
@@ -202,22 +319,47 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse | null
                 return rpcError(id, -32602, `Unknown tool: ${params.name}`);
             }
 
+            const definition = TOOLS.find(t => t.name === params.name);
+            const checked = definition && checkArgs(params.arguments ?? {}, definition.inputSchema, (names, query) => rankedSuggestions(names, query, ARG_SUGGESTIONS, true));
+            if (checked?.errors.length) {
+                sessionStats.errors++;
+                logger.warn(`${params.name}: invalid arguments: ${formatArgErrors(checked.errors)}`);
+                return rpcError(id, -32602, `Invalid arguments for ${params.name}: ${formatArgErrors(checked.errors)}`, { errors: checked.errors as unknown as JSONValue });
+            }
+            const args = checked?.args ?? params.arguments ?? {};
+
             const start = performance.now();
-            const action = actionOf(params.arguments);
+            const action = actionOf(args);
             const toolLabel = action ? `${params.name}.${action}` : params.name;
+            const controller = new AbortController();
+            inflight.set(requestId, controller);
             let toolResult: ToolCallResult;
             try {
                 const timeout = getToolTimeout(params.name, action);
-                toolResult = await withTimeout(executeToolCall(params.name, params.arguments ?? {}), timeout, params.name);
+                const progressToken = params._meta?.progressToken;
+                toolResult = await scheduler.run(isReadOnlyCall(params.name, action), async () => {
+                    controller.signal.throwIfAborted();
+                    return withTimeout(
+                        extend => executeToolCall(params.name, args, createToolContext(requestId, controller.signal, progressToken, extend)),
+                        timeout,
+                        params.name,
+                        progressToken != null ? PROGRESS_TIMEOUT_CAP_MS : timeout,
+                    );
+                });
             } catch (e) {
                 const errorMsg = errMsg(e);
                 logger.error(`${toolLabel}: ${errorMsg}`);
                 toolResult = errorResult({ message: errorMsg, tool: params.name, action: action ?? null });
+            } finally {
+                inflight.delete(requestId);
             }
 
             const elapsed = performance.now() - start;
 
-            if (toolResult.isError) {
+            if (controller.signal.aborted) {
+                logger.info(`${toolLabel} cancelled after ${elapsed.toFixed(0)}ms`);
+                return null;
+            } else if (toolResult.isError) {
                 sessionStats.errors++;
                 logger.error(`${toolLabel} failed (${elapsed.toFixed(0)}ms)`);
             } else if (elapsed > SLOW_TOOL_THRESHOLD_MS) {
@@ -230,10 +372,42 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse | null
         }
 
         case "resources/list":
-            return rpcResult(id, { resources: [] });
+            return rpcResult(id, { resources: listResources() });
+
+        case "resources/templates/list":
+            return rpcResult(id, { resourceTemplates: RESOURCE_TEMPLATES });
+
+        case "resources/read": {
+            const uri = (request.params as { uri?: string } | undefined)?.uri;
+            if (!uri) return rpcError(id, -32602, "Missing resource uri");
+            const read = await readResource(uri);
+            return "error" in read ? rpcError(id, -32002, read.message) : rpcResult(id, read);
+        }
+
+        case "resources/subscribe": {
+            const uri = (request.params as { uri?: string } | undefined)?.uri;
+            if (!uri) return rpcError(id, -32602, "Missing resource uri");
+            if (!sessionId) return rpcError(id, -32600, "resources/subscribe needs an Mcp-Session-Id session to deliver updates");
+            const sub = subscribeResource(uri, sessionId, (target, updated) => Native.notifySession({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: updated } }, target));
+            return "error" in sub ? rpcError(id, -32602, sub.message) : rpcResult(id, {});
+        }
+
+        case "resources/unsubscribe": {
+            const uri = (request.params as { uri?: string } | undefined)?.uri;
+            if (!uri) return rpcError(id, -32602, "Missing resource uri");
+            if (sessionId) unsubscribeResource(uri, sessionId);
+            return rpcResult(id, {});
+        }
 
         case "prompts/list":
-            return rpcResult(id, { prompts: [] });
+            return rpcResult(id, { prompts: PROMPTS });
+
+        case "prompts/get": {
+            const params = request.params as { name?: string; arguments?: Record<string, string> } | undefined;
+            if (!params?.name) return rpcError(id, -32602, "Missing prompt name");
+            const prompt = getPrompt(params.name, params.arguments);
+            return "error" in prompt ? rpcError(id, -32602, prompt.message) : rpcResult(id, prompt);
+        }
 
         default:
             if (request.method.startsWith("notifications/")) return null;
@@ -254,6 +428,8 @@ interface PluginInstance {
     stop(): void;
 }
 
+export { type McpToolRegistration, registerMcpTool, unregisterMcpTool } from "./tools/registry";
+
 export default definePlugin({
     name: "mcp",
     description: "Discord MCP server that exposes the client's webpack, Flux, React, and intl internals to an AI client",
@@ -266,9 +442,10 @@ export default definePlugin({
         async "MCP Status"() {
             const status = await Native.getServerStatus();
             const s = status.stats;
-            let msg = status.running ? `MCP on :${status.port}` : "MCP stopped";
+            let msg = status.running ? `MCP on ${endpointLabel(status.endpoint)}` : "MCP stopped";
             if (s && status.running) {
                 msg += ` | reqs:${s.requests} ok:${s.success} err:${s.errors} timeouts:${s.timeouts}`;
+                if (s.hostRejected) msg += ` | bad host:${s.hostRejected}`;
                 if (s.uptimeFormatted) msg += ` | up:${s.uptimeFormatted}`;
             }
             toast(msg, status.running ? Toasts.Type.SUCCESS : Toasts.Type.FAILURE);
@@ -277,8 +454,12 @@ export default definePlugin({
         async "Restart Server"() {
             logger.info("Restarting server...");
             await Native.stopServer();
-            const result = await Native.startServer();
-            toast(result.ok ? "MCP restarted" : "Restart failed", result.ok ? Toasts.Type.SUCCESS : Toasts.Type.FAILURE);
+            const result = await Native.startServer(listenOptions());
+            toast(result.ok ? `MCP restarted on ${endpointLabel(result.endpoint)}` : "Restart failed", result.ok ? Toasts.Type.SUCCESS : Toasts.Type.FAILURE);
+        },
+        async "Copy Auth Token"() {
+            const { ok } = await Native.copyAuthToken();
+            toast(ok ? "MCP bearer token copied to clipboard" : "Could not read the MCP token", ok ? Toasts.Type.SUCCESS : Toasts.Type.FAILURE);
         },
         "Session Info"() {
             const uptime = sessionStats.connectedAt ? Math.floor((Date.now() - sessionStats.connectedAt) / 1000) : 0;
@@ -310,8 +491,8 @@ export default definePlugin({
         const pending = await Native.getNextRequest();
         if (pending) {
             this.idleCount = 0;
-            const { id, request } = pending;
-            handleMCPRequest(request)
+            const { id, request, sessionId } = pending;
+            handleMCPRequest(request, id, sessionId)
                 .catch(e => rpcError(request.id, -32603, errMsg(e)))
                 .then(response => Native.sendResponse(id, response));
             this.scheduleImmediate();
@@ -325,17 +506,26 @@ export default definePlugin({
     async start(this: PluginInstance) {
         logger.info(`Starting MCP server, ${TOOLS.length} tools available`);
 
-        const result = await Native.startServer();
+        const result = await Native.startServer(listenOptions());
         if (!result.ok) {
             logger.error("Failed to start server");
             return;
         }
-        logger.info(`http://127.0.0.1:${result.port}`);
+        logger.info(endpointLabel(result.endpoint));
+        if (result.endpoint?.port != null && result.endpoint.port !== settings.store.port) {
+            const why = isUsablePort(settings.store.port) ? "was taken" : `is not a valid port (${MIN_PORT}-${MAX_PORT})`;
+            toast(`MCP port ${settings.store.port} ${why}, serving on ${result.endpoint.port}`, Toasts.Type.MESSAGE);
+        }
 
         this.polling = true;
         this.idleCount = 0;
         this.poll();
-        Native.notifyRendererReady();
+        Native.notifyRendererReady().then(afterReload => {
+            if (!settings.store.regressionSweep) return;
+            scheduleRegressionSweep(afterReload ? "reload" : "launch").then(run => {
+                if (run) logger.info(`Regression sweep: ${run.patches.filter(p => p.status === "APPLIED").length}/${run.patches.length} patches applied, ${run.broken} broken`);
+            }).catch(() => {});
+        }).catch(() => {});
 
         installConsoleCapture();
         initKeyMapPersistence({
@@ -344,6 +534,12 @@ export default definePlugin({
         }).then(restored => {
             if (restored) logger.info(`Restored ${restored} recovered intl keys from disk`);
         }).catch(() => {});
+        initBuildFingerprints().then(saved => {
+            if (saved) logger.info(`Saved fingerprints for ${saved} modules of this build`);
+        }).catch(() => {});
+        warmSourceIndex().then(indexed => {
+            if (indexed) logger.info(`Indexed ${indexed} module sources`);
+        }).catch(() => {});
     },
 
     stop(this: PluginInstance) {
@@ -361,8 +557,13 @@ export default definePlugin({
         cleanupAllTraces();
         cleanupAllIntercepts();
         cleanupAllModuleWatches();
+        cleanupAllResourceSubscriptions();
+        clearSourceIndex();
         clearCSSIndexCache();
+        cancelRegressionSweep();
+        cleanupAllHotPatches();
         uninstallConsoleCapture();
+        clearPageCache();
         toolCache.clear();
         Native.stopServer();
     },
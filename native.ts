@@ -4,17 +4,22 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { app, IpcMainInvokeEvent } from "electron";
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { app, clipboard, IpcMainInvokeEvent } from "electron";
 import { promises as fs } from "fs";
 import { createServer, IncomingMessage, Server, ServerResponse } from "http";
-import { join } from "path";
+import { isAbsolute, join, relative } from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
 
-import { DEFAULT_TIMEOUT_MS, getToolTimeout } from "./timeouts";
-import { IPCMCPRequest, JSONValue, MCPRequest, MCPResponse, ServerStats, ServerStatus, ToolCallParams } from "./types";
+import { DEFAULT_PORT, isUsablePort, MAX_PORT } from "./ports";
+import { DEFAULT_TIMEOUT_MS, getToolTimeout, PROGRESS_TIMEOUT_CAP_MS } from "./timeouts";
+import { IPCMCPRequest, JSONValue, MCPNotification, MCPRequest, MCPResponse, ServerEndpoint, ServerListenOptions, ServerStats, ServerStatus, ToolCallParams } from "./types";
 
-const PORT = 8486;
+const PORT_FALLBACK_ATTEMPTS = 10;
 const HOST = "127.0.0.1";
 const MAX_BODY_SIZE = 65536;
+const MAX_BATCH_MESSAGES = 32;
 const REQUEST_ID_MASK = 0x7fffffff;
 const DEFAULT_REQUEST_PRIORITY = 10;
 const RENDERER_READY_TIMEOUT_MS = 30_000;
@@ -23,6 +28,10 @@ const SERVER_KEEPALIVE_TIMEOUT_MS = 10_000;
 const SERVER_HEADERS_TIMEOUT_MS = 5_000;
 const SERVER_MAX_HEADERS = 20;
 const MAIN_TIMEOUT_SLACK_MS = 5_000;
+const MAX_SESSIONS = 32;
+const MAX_STREAMS_PER_SESSION = 4;
+const SESSION_IDLE_MS = 30 * 60_000;
+const SSE_HEARTBEAT_MS = 25_000;
 
 const enum RPCError {
     ParseError = -32700,
@@ -34,12 +43,23 @@ const enum RPCError {
 
 const CORS_HEADERS: Readonly<Record<string, string>> = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
+    "Access-Control-Expose-Headers": "Mcp-Session-Id",
+};
+
+const SSE_HEADERS: Readonly<Record<string, string>> = {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
 };
 
 const LOCAL_ORIGIN_RE = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/i;
+const LOOPBACK_HOST_RE = /^(?:127\.0\.0\.1|localhost|\[::1\]):(\d+)$/i;
+
+const AUTH_TOKEN_RE = /^[\w-]{43}$/;
 
+let authToken: Buffer | null = null;
 let rendererReady = true;
 const readyWaiters: Array<() => void> = [];
 
@@ -47,10 +67,11 @@ export function notifyReloadTriggered(): void {
     rendererReady = false;
 }
 
-export function notifyRendererReady(): void {
-    if (rendererReady) return;
+export function notifyRendererReady(): boolean {
+    if (rendererReady) return false;
     rendererReady = true;
     while (readyWaiters.length) readyWaiters.shift()!();
+    return true;
 }
 
 function waitForRenderer(): Promise<boolean> {
@@ -67,20 +88,41 @@ function waitForRenderer(): Promise<boolean> {
 }
 
 let server: Server | null = null;
+let endpoint: ServerEndpoint | null = null;
 let requestId = 0;
 
 interface QueuedRequest {
     id: number;
     request: MCPRequest;
+    sessionId: string | null;
     priority: number;
 }
 
+interface PendingRequest {
+    clientId: number | string | null;
+    sessionId: string | null;
+    notify: (message: MCPNotification) => boolean;
+    extend: () => void;
+    resolve: (response: MCPResponse | null) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface McpSession {
+    id: string;
+    lastSeen: number;
+    streams: Set<ServerResponse>;
+}
+
 const requestQueue: QueuedRequest[] = [];
-const pending = new Map<number, { clientId: number | string | null; resolve: (response: MCPResponse | null) => void; timer: ReturnType<typeof setTimeout> }>();
+const pending = new Map<number, PendingRequest>();
+const sessions = new Map<string, McpSession>();
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+let eventId = 0;
 
-const stats: ServerStats = { startedAt: 0, requests: 0, success: 0, errors: 0, timeouts: 0 };
+const stats: ServerStats = { startedAt: 0, requests: 0, success: 0, errors: 0, timeouts: 0, cancelled: 0, hostRejected: 0 };
 
 const PRIORITY: Readonly<Record<string, number>> = {
+    "notifications/cancelled": 0,
     initialize: 0,
     "tools/list": 1,
     "tools/call": 2,
@@ -104,24 +146,88 @@ function readBody(req: IncomingMessage): Promise<string> {
     });
 }
 
-function writeJSON(res: ServerResponse, statusCode: number, body: string): void {
+function writeJSON(res: ServerResponse, statusCode: number, body: string, headers?: Record<string, string>): void {
     const buf = Buffer.from(body);
     res.writeHead(statusCode, {
         "Content-Type": "application/json",
         "Content-Length": buf.length,
         ...CORS_HEADERS,
+        ...headers,
         Connection: "keep-alive",
     });
     res.end(buf);
 }
 
+function writeEvent(stream: ServerResponse, message: MCPResponse | MCPNotification): void {
+    eventId = (eventId + 1) & REQUEST_ID_MASK;
+    stream.write(`id: ${eventId}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+function acceptsEventStream(req: IncomingMessage): boolean {
+    return (req.headers.accept ?? "").includes("text/event-stream");
+}
+
 function makeError(id: number | string | null, code: RPCError, message: string, data?: JSONValue): MCPResponse {
     return { jsonrpc: "2.0", id, error: { code, message, ...(data != null ? { data } : {}) } };
 }
 
-function sendError(res: ServerResponse, id: number | string | null, code: RPCError, message: string, data?: JSONValue): void {
+function sendError(res: ServerResponse, id: number | string | null, code: RPCError, message: string, data?: JSONValue, statusCode = 200, headers?: Record<string, string>): void {
     stats.errors++;
-    writeJSON(res, 200, JSON.stringify(makeError(id, code, message, data)));
+    writeJSON(res, statusCode, JSON.stringify(makeError(id, code, message, data)), headers);
+}
+
+function createSession(): McpSession {
+    if (sessions.size >= MAX_SESSIONS) {
+        const oldest = [...sessions.values()].reduce((a, b) => (a.lastSeen <= b.lastSeen ? a : b));
+        closeSession(oldest.id);
+    }
+    const session: McpSession = { id: randomUUID(), lastSeen: Date.now(), streams: new Set() };
+    sessions.set(session.id, session);
+    return session;
+}
+
+function closeSession(id: string): boolean {
+    const session = sessions.get(id);
+    if (!session) return false;
+    sessions.delete(id);
+    for (const stream of session.streams) stream.end();
+    return true;
+}
+
+function pruneSessions(): void {
+    const now = Date.now();
+    for (const session of [...sessions.values()]) {
+        if (!session.streams.size && now - session.lastSeen > SESSION_IDLE_MS) closeSession(session.id);
+        else for (const stream of session.streams) stream.write(": ping\n\n");
+    }
+}
+
+function openEventStream(req: IncomingMessage, res: ServerResponse, session: McpSession): void {
+    if (session.streams.size >= MAX_STREAMS_PER_SESSION) session.streams.values().next().value!.end();
+    res.writeHead(200, { ...CORS_HEADERS, ...SSE_HEADERS, "Mcp-Session-Id": session.id });
+    res.write(": stream open\n\n");
+    session.streams.add(res);
+    const drop = () => session.streams.delete(res);
+    req.on("close", drop);
+    res.on("close", drop);
+}
+
+export function sendNotification(_event: IpcMainInvokeEvent, notification: MCPNotification, requestId?: number): void {
+    const entry = requestId != null ? pending.get(requestId) : undefined;
+    if (entry && notification.method === "notifications/progress") entry.extend();
+    if (entry?.notify(notification)) return;
+    if (requestId != null && !entry?.sessionId) return;
+    const targets = entry?.sessionId ? [sessions.get(entry.sessionId)] : [...sessions.values()];
+    for (const session of targets) {
+        if (session) for (const stream of session.streams) writeEvent(stream, notification);
+    }
+}
+
+export function notifySession(_event: IpcMainInvokeEvent, notification: MCPNotification, sessionId: string): boolean {
+    const session = sessions.get(sessionId);
+    if (!session) return false;
+    for (const stream of session.streams) writeEvent(stream, notification);
+    return true;
 }
 
 function clearPending(reason: string): void {
@@ -130,6 +236,28 @@ function clearPending(reason: string): void {
     requestQueue.length = 0;
 }
 
+function cancelPending(clientId: unknown, sessionId: string | null): number | null {
+    if (typeof clientId !== "number" && typeof clientId !== "string") return null;
+    for (const [id, entry] of pending) {
+        if (entry.clientId !== clientId || entry.sessionId !== sessionId) continue;
+        pending.delete(id);
+        clearTimeout(entry.timer);
+        stats.cancelled++;
+        entry.resolve(null);
+        const queueIdx = requestQueue.findIndex(q => q.id === id);
+        if (queueIdx < 0) return id;
+        requestQueue.splice(queueIdx, 1);
+        return null;
+    }
+    return null;
+}
+
+function cancelInRenderer(id: number, sessionId: string | null, reason: string): void {
+    const cancelId = (requestId = (requestId + 1) & REQUEST_ID_MASK);
+    const request: MCPRequest = { jsonrpc: "2.0", id: cancelId, method: "notifications/cancelled", params: { requestId: id, reason } };
+    requestQueue.push({ id: cancelId, request, sessionId, priority: PRIORITY["notifications/cancelled"] });
+}
+
 export function getNextRequest(): IPCMCPRequest | null {
     if (!requestQueue.length) return null;
 
@@ -139,7 +267,7 @@ export function getNextRequest(): IPCMCPRequest | null {
     }
 
     const [item] = requestQueue.splice(bestIdx, 1);
-    return { id: item.id, request: item.request };
+    return { id: item.id, request: item.request, sessionId: item.sessionId };
 }
 
 export function sendResponse(_event: IpcMainInvokeEvent, id: number, response: MCPResponse | null): void {
@@ -150,15 +278,112 @@ export function sendResponse(_event: IpcMainInvokeEvent, id: number, response: M
     entry.resolve(response);
 }
 
-export function startServer(): Promise<{ ok: boolean; port: number }> {
+function isAuthorized(req: IncomingMessage): boolean {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+    if (!match || !authToken) return false;
+    const given = Buffer.from(match[1]);
+    return given.length === authToken.length && timingSafeEqual(given, authToken);
+}
+
+function listen(srv: Server, target: number | string): Promise<NodeJS.ErrnoException | null> {
+    return new Promise(resolve => {
+        const onError = (err: NodeJS.ErrnoException) => { srv.off("listening", onListening); resolve(err); };
+        const onListening = () => { srv.off("error", onError); resolve(null); };
+        srv.once("error", onError);
+        srv.once("listening", onListening);
+        if (typeof target === "number") srv.listen(target, HOST);
+        else srv.listen(target);
+    });
+}
+
+function checkBatchMessage(message: unknown): MCPResponse | null {
+    if (!message || typeof message !== "object" || Array.isArray(message)) return makeError(null, RPCError.InvalidRequest, "Batch entries must be JSON-RPC objects");
+    const request = message as MCPRequest;
+    if (request.jsonrpc !== "2.0") return makeError(request.id ?? null, RPCError.InvalidRequest, `Expected jsonrpc "2.0", got "${request.jsonrpc}"`);
+    if (request.method === "initialize") return makeError(request.id ?? null, RPCError.InvalidRequest, "initialize cannot be part of a batch");
+    return null;
+}
+
+async function dispatchRequest(request: MCPRequest, sessionId: string | null, notify: (message: MCPNotification) => boolean): Promise<MCPResponse | null> {
+    if (request.method === "notifications/cancelled") {
+        const cancelParams = request.params as Record<string, JSONValue> | undefined;
+        const running = cancelPending(cancelParams?.requestId, sessionId);
+        if (running === null) return null;
+        request = { ...request, params: { ...cancelParams, requestId: running } };
+    }
+
+    const id = (requestId = (requestId + 1) & REQUEST_ID_MASK);
+    const priority = PRIORITY[request.method] ?? DEFAULT_REQUEST_PRIORITY;
+    const params = request.params as ToolCallParams | undefined;
+    const action = params?.arguments?.action as string | undefined;
+    const timeout = request.method === "tools/call" && params?.name ? getToolTimeout(params.name, action) : DEFAULT_TIMEOUT_MS;
+    const mainTimeout = timeout + MAIN_TIMEOUT_SLACK_MS;
+
+    const startedAt = Date.now();
+    const response = await new Promise<MCPResponse | null>(resolve => {
+        const onTimeout = () => {
+            if (!pending.has(id)) return;
+            pending.delete(id);
+            const queueIdx = requestQueue.findIndex(q => q.id === id);
+            if (queueIdx >= 0) requestQueue.splice(queueIdx, 1);
+            else cancelInRenderer(id, sessionId, "timed out in main");
+            stats.timeouts++;
+
+            const tool = params?.name ?? request.method;
+            const detail = action ? `${tool}:${action}` : tool;
+
+            resolve(
+                makeError(request.id ?? null, RPCError.Timeout, `${detail} did not respond within ${Math.round((Date.now() - startedAt) / 1000)}s. The renderer may be blocked or the operation is too expensive.`, {
+                    tool,
+                    action: action ?? null,
+                    timeoutMs: mainTimeout,
+                }),
+            );
+        };
+        const entry: PendingRequest = {
+            clientId: request.id ?? null,
+            sessionId,
+            notify,
+            resolve,
+            timer: setTimeout(onTimeout, mainTimeout),
+            extend: () => {
+                clearTimeout(entry.timer);
+                entry.timer = setTimeout(onTimeout, Math.min(mainTimeout, startedAt + PROGRESS_TIMEOUT_CAP_MS + MAIN_TIMEOUT_SLACK_MS - Date.now()));
+            },
+        };
+        pending.set(id, entry);
+
+        requestQueue.push({ id, request, sessionId, priority });
+    });
+
+    if (response !== null) {
+        if (!("error" in response)) stats.success++;
+        else if (response.error?.code !== RPCError.Timeout) stats.errors++;
+    }
+    return response;
+}
+
+export async function startServer(_event: IpcMainInvokeEvent, options: ServerListenOptions = {}): Promise<{ ok: boolean; endpoint: ServerEndpoint | null }> {
     clearPending("Server restarting");
 
-    if (server) return Promise.resolve({ ok: true, port: PORT });
+    if (server) return { ok: true, endpoint };
+    authToken = Buffer.from(await loadAuthToken());
+
+    const socketPath = typeof options.socketPath === "string" ? options.socketPath.trim() : "";
+    const basePort = isUsablePort(options.port) ? options.port : DEFAULT_PORT;
+    let port: number | null = null;
 
     const srv = createServer(async (req, res) => {
         stats.requests++;
 
-        const { origin } = req.headers;
+        const { origin, host } = req.headers;
+        if (port !== null && LOOPBACK_HOST_RE.exec(host ?? "")?.[1] !== String(port)) {
+            stats.hostRejected++;
+            console.warn("[mcp]", `Rejected request with Host ${JSON.stringify(host ?? null)}`);
+            res.writeHead(403, CORS_HEADERS);
+            res.end();
+            return;
+        }
         if (origin && !LOCAL_ORIGIN_RE.test(origin)) {
             stats.errors++;
             res.writeHead(403, CORS_HEADERS);
@@ -172,8 +397,32 @@ export function startServer(): Promise<{ ok: boolean; port: number }> {
             return;
         }
 
+        if (!isAuthorized(req)) {
+            sendError(res, null, RPCError.InvalidRequest, "Missing or invalid Authorization: Bearer token. Copy it from the MCP toolbox in Discord", undefined, 401, { "WWW-Authenticate": "Bearer" });
+            return;
+        }
+
+        const sessionHeader = req.headers["mcp-session-id"];
+        const sessionId = typeof sessionHeader === "string" ? sessionHeader : null;
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (session) session.lastSeen = Date.now();
+
+        if (req.method === "GET") {
+            if (!acceptsEventStream(req)) sendError(res, null, RPCError.InvalidRequest, "GET requires Accept: text/event-stream", undefined, 406);
+            else if (!sessionId) sendError(res, null, RPCError.InvalidRequest, "Mcp-Session-Id header required, initialize first", undefined, 400);
+            else if (!session) sendError(res, null, RPCError.InvalidRequest, "Session not found, initialize again", undefined, 404);
+            else openEventStream(req, res, session);
+            return;
+        }
+
+        if (req.method === "DELETE") {
+            res.writeHead(sessionId && closeSession(sessionId) ? 204 : 404, CORS_HEADERS);
+            res.end();
+            return;
+        }
+
         if (req.method !== "POST") {
-            sendError(res, null, RPCError.InvalidRequest, `Expected POST, got ${req.method}`);
+            sendError(res, null, RPCError.InvalidRequest, `Expected GET, POST, or DELETE, got ${req.method}`, undefined, 405);
             return;
         }
 
@@ -185,68 +434,78 @@ export function startServer(): Promise<{ ok: boolean; port: number }> {
             return;
         }
 
-        let request: MCPRequest;
+        let parsed: unknown;
         try {
-            request = JSON.parse(body) as MCPRequest;
+            parsed = JSON.parse(body);
         } catch {
             sendError(res, null, RPCError.ParseError, "Request body is not valid JSON");
             return;
         }
 
-        if (request.jsonrpc !== "2.0") {
-            sendError(res, request.id ?? null, RPCError.InvalidRequest, `Expected jsonrpc "2.0", got "${request.jsonrpc}"`);
+        const batch = Array.isArray(parsed);
+        const messages: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+        if (!messages.length) {
+            sendError(res, null, RPCError.InvalidRequest, "Empty batch");
+            return;
+        }
+        if (messages.length > MAX_BATCH_MESSAGES) {
+            sendError(res, null, RPCError.InvalidRequest, `Batch has ${messages.length} messages, the limit is ${MAX_BATCH_MESSAGES}`);
+            return;
+        }
+
+        const single = batch ? null : parsed as MCPRequest;
+        if (single && single.jsonrpc !== "2.0") {
+            sendError(res, single.id ?? null, RPCError.InvalidRequest, `Expected jsonrpc "2.0", got "${single.jsonrpc}"`);
+            return;
+        }
+
+        if (sessionId && !session && single?.method !== "initialize") {
+            sendError(res, single?.id ?? null, RPCError.InvalidRequest, "Session not found, initialize again", undefined, 404);
             return;
         }
 
         if (!rendererReady) {
             const ok = await waitForRenderer();
             if (!ok) {
-                sendError(res, request.id ?? null, RPCError.RendererUnavailable, `Renderer did not become ready within ${RENDERER_READY_TIMEOUT_MS / 1000}s`);
+                sendError(res, single?.id ?? null, RPCError.RendererUnavailable, `Renderer did not become ready within ${RENDERER_READY_TIMEOUT_MS / 1000}s`);
                 return;
             }
         }
 
-        const id = (requestId = (requestId + 1) & REQUEST_ID_MASK);
-        const priority = PRIORITY[request.method] ?? DEFAULT_REQUEST_PRIORITY;
-        const params = request.params as ToolCallParams | undefined;
-        const action = params?.arguments?.action as string | undefined;
-        const timeout = request.method === "tools/call" && params?.name ? getToolTimeout(params.name, action) : DEFAULT_TIMEOUT_MS;
-        const mainTimeout = timeout + MAIN_TIMEOUT_SLACK_MS;
-
-        const response = await new Promise<MCPResponse | null>(resolve => {
-            pending.set(id, {
-                clientId: request.id ?? null,
-                resolve,
-                timer: setTimeout(() => {
-                    if (!pending.has(id)) return;
-                    pending.delete(id);
-                    const queueIdx = requestQueue.findIndex(q => q.id === id);
-                    if (queueIdx >= 0) requestQueue.splice(queueIdx, 1);
-                    stats.timeouts++;
-
-                    const tool = params?.name ?? request.method;
-                    const detail = action ? `${tool}:${action}` : tool;
-
-                    resolve(
-                        makeError(request.id ?? null, RPCError.Timeout, `${detail} did not respond within ${Math.round(mainTimeout / 1000)}s. The renderer may be blocked or the operation is too expensive.`, {
-                            tool,
-                            action: action ?? null,
-                            timeoutMs: mainTimeout,
-                        }),
-                    );
-                }, mainTimeout),
-            });
-
-            requestQueue.push({ id, request, priority });
-        });
+        const canStream = acceptsEventStream(req);
+        let streaming = false;
+        const notify = (message: MCPNotification): boolean => {
+            if (!canStream || res.writableEnded) return false;
+            if (!streaming) {
+                res.writeHead(200, { ...CORS_HEADERS, ...SSE_HEADERS });
+                streaming = true;
+            }
+            writeEvent(res, message);
+            return true;
+        };
+
+        const responses = await Promise.all(messages.map(message => {
+            const invalid = batch ? checkBatchMessage(message) : null;
+            if (invalid) {
+                stats.errors++;
+                return invalid;
+            }
+            return dispatchRequest(message as MCPRequest, session?.id ?? null, notify);
+        }));
+        const answered = responses.filter((r): r is MCPResponse => r !== null);
 
-        if (response === null) {
-            res.writeHead(204, CORS_HEADERS);
+        if (streaming) {
+            for (const response of answered) writeEvent(res, response);
+            res.end();
+        } else if (!answered.length) {
+            res.writeHead(202, CORS_HEADERS);
             res.end();
+        } else if (batch) {
+            writeJSON(res, 200, JSON.stringify(answered));
+        } else if (single!.method === "initialize" && !("error" in answered[0])) {
+            writeJSON(res, 200, JSON.stringify(answered[0]), { "Mcp-Session-Id": createSession().id });
         } else {
-            if (!("error" in response)) stats.success++;
-            else if (response.error?.code !== RPCError.Timeout) stats.errors++;
-            writeJSON(res, 200, JSON.stringify(response));
+            writeJSON(res, 200, JSON.stringify(answered[0]));
         }
     });
 
@@ -255,31 +514,38 @@ export function startServer(): Promise<{ ok: boolean; port: number }> {
     srv.maxHeadersCount = SERVER_MAX_HEADERS;
     srv.timeout = 0;
 
-    srv.on("error", (err: NodeJS.ErrnoException) => {
-        console.error("[mcp]", err.code === "EADDRINUSE" ? `Port ${PORT} already in use` : err.message);
-    });
+    let err: NodeJS.ErrnoException | null;
+    if (socketPath) {
+        err = await listen(srv, socketPath);
+    } else {
+        do {
+            port = port === null ? basePort : port + 1;
+            err = await listen(srv, port);
+        } while (err?.code === "EADDRINUSE" && port < Math.min(basePort + PORT_FALLBACK_ATTEMPTS - 1, MAX_PORT));
+    }
+    if (err) {
+        console.error("[mcp]", err.code === "EADDRINUSE" ? `${socketPath || `Ports ${basePort}-${port}`} already in use` : err.message);
+        return { ok: false, endpoint: null };
+    }
 
+    srv.on("error", (e: Error) => console.error("[mcp]", e.message));
     server = srv;
-
-    return new Promise(resolve => {
-        srv.once("listening", () => {
-            stats.startedAt = Date.now();
-            resolve({ ok: true, port: PORT });
-        });
-
-        srv.once("error", () => {
-            server = null;
-            resolve({ ok: false, port: PORT });
-        });
-
-        srv.listen(PORT, HOST);
-    });
+    endpoint = { url: port !== null ? `http://${HOST}:${port}` : null, port, socketPath: socketPath || null };
+    stats.startedAt = Date.now();
+    heartbeat ??= setInterval(pruneSessions, SSE_HEARTBEAT_MS);
+    await writeDiscoveryFile(endpoint);
+    return { ok: true, endpoint };
 }
 
 export async function stopServer(): Promise<{ ok: boolean }> {
     clearPending("Server stopped");
+    for (const id of [...sessions.keys()]) closeSession(id);
+    if (heartbeat) clearInterval(heartbeat);
+    heartbeat = null;
     const srv = server;
     server = null;
+    if (endpoint) await fs.rm(discoveryPath(), { force: true }).catch(() => {});
+    endpoint = null;
     if (srv) {
         srv.closeIdleConnections();
         srv.closeAllConnections();
@@ -291,6 +557,20 @@ export async function stopServer(): Promise<{ ok: boolean }> {
     return { ok: true };
 }
 
+function discoveryPath(): string {
+    return join(app.getPath("userData"), "DiscordMcpEndpoint.json");
+}
+
+async function writeDiscoveryFile(ep: ServerEndpoint): Promise<void> {
+    const info = { ...ep, pid: process.pid, tokenFile: authTokenPath(), startedAt: stats.startedAt };
+    try {
+        await fs.writeFile(discoveryPath() + ".tmp", JSON.stringify(info, null, 2), "utf8");
+        await fs.rename(discoveryPath() + ".tmp", discoveryPath());
+    } catch (e) {
+        console.error("[mcp]", `Could not write ${discoveryPath()}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
 const KEYMAP_MAX_BYTES = 2_000_000;
 
 function keyMapPath(): string {
@@ -318,15 +598,237 @@ export async function writeKeyMap(_event: IpcMainInvokeEvent, json: string): Pro
     }
 }
 
+const SWEEP_HISTORY_MAX_BYTES = 8_000_000;
+
+function sweepHistoryPath(): string {
+    return join(app.getPath("userData"), "DiscordMcpSweepHistory.json");
+}
+
+export async function readSweepHistory(): Promise<string | null> {
+    try {
+        const text = await fs.readFile(sweepHistoryPath(), "utf8");
+        return text.length <= SWEEP_HISTORY_MAX_BYTES ? text : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function writeSweepHistory(_event: IpcMainInvokeEvent, json: string): Promise<{ ok: boolean }> {
+    if (typeof json !== "string" || json.length > SWEEP_HISTORY_MAX_BYTES) return { ok: false };
+    try {
+        const path = sweepHistoryPath();
+        await fs.writeFile(path + ".tmp", json, "utf8");
+        await fs.rename(path + ".tmp", path);
+        return { ok: true };
+    } catch {
+        return { ok: false };
+    }
+}
+
+function authTokenPath(): string {
+    return join(app.getPath("userData"), "DiscordMcpToken.txt");
+}
+
+async function loadAuthToken(): Promise<string> {
+    const path = authTokenPath();
+    try {
+        const stored = (await fs.readFile(path, "utf8")).trim();
+        if (AUTH_TOKEN_RE.test(stored)) return stored;
+    } catch {}
+    const token = randomBytes(32).toString("base64url");
+    await fs.writeFile(path + ".tmp", token, { encoding: "utf8", mode: 0o600 });
+    await fs.rename(path + ".tmp", path);
+    return token;
+}
+
+export async function copyAuthToken(): Promise<{ ok: boolean }> {
+    try {
+        clipboard.writeText(authToken?.toString("utf8") ?? await loadAuthToken());
+        return { ok: true };
+    } catch {
+        return { ok: false };
+    }
+}
+
+const FINGERPRINTS_MAX_BYTES = 64_000_000;
+const FINGERPRINTS_MAX_BUILDS = 8;
+const BUILD_KEY_RE = /^[\w.-]{1,80}$/;
+
+function fingerprintsDir(): string {
+    return join(app.getPath("userData"), "DiscordMcpFingerprints");
+}
+
+export async function listFingerprintBuilds(): Promise<Array<{ build: string; savedAt: number; bytes: number }>> {
+    try {
+        const dir = fingerprintsDir();
+        const out: Array<{ build: string; savedAt: number; bytes: number }> = [];
+        for (const name of await fs.readdir(dir)) {
+            if (!name.endsWith(".json")) continue;
+            const stat = await fs.stat(join(dir, name)).catch(() => null);
+            if (stat?.isFile()) out.push({ build: name.slice(0, -5), savedAt: stat.mtimeMs, bytes: stat.size });
+        }
+        return out.sort((a, b) => b.savedAt - a.savedAt);
+    } catch {
+        return [];
+    }
+}
+
+export async function readFingerprints(_event: IpcMainInvokeEvent, build: string): Promise<string | null> {
+    if (typeof build !== "string" || !BUILD_KEY_RE.test(build)) return null;
+    try {
+        const text = await fs.readFile(join(fingerprintsDir(), build + ".json"), "utf8");
+        return text.length <= FINGERPRINTS_MAX_BYTES ? text : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function writeFingerprints(_event: IpcMainInvokeEvent, build: string, json: string): Promise<{ ok: boolean }> {
+    if (typeof build !== "string" || !BUILD_KEY_RE.test(build)) return { ok: false };
+    if (typeof json !== "string" || json.length > FINGERPRINTS_MAX_BYTES) return { ok: false };
+    try {
+        const dir = fingerprintsDir();
+        await fs.mkdir(dir, { recursive: true });
+        const path = join(dir, build + ".json");
+        await fs.writeFile(path + ".tmp", json, "utf8");
+        await fs.rename(path + ".tmp", path);
+        for (const stale of (await listFingerprintBuilds()).slice(FINGERPRINTS_MAX_BUILDS)) {
+            await fs.unlink(join(dir, stale.build + ".json")).catch(() => {});
+        }
+        return { ok: true };
+    } catch {
+        return { ok: false };
+    }
+}
+
+const SNAPSHOT_MAX_BYTES = 400_000_000;
+const SNAPSHOT_MAX_BUILDS = 4;
+const SNAPSHOT_EXT = ".json.gz";
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+function snapshotsDir(): string {
+    return join(app.getPath("userData"), "DiscordMcpSnapshots");
+}
+
+export async function listSnapshotBuilds(): Promise<Array<{ build: string; savedAt: number; bytes: number }>> {
+    try {
+        const dir = snapshotsDir();
+        const out: Array<{ build: string; savedAt: number; bytes: number }> = [];
+        for (const name of await fs.readdir(dir)) {
+            if (!name.endsWith(SNAPSHOT_EXT)) continue;
+            const stat = await fs.stat(join(dir, name)).catch(() => null);
+            if (stat?.isFile()) out.push({ build: name.slice(0, -SNAPSHOT_EXT.length), savedAt: stat.mtimeMs, bytes: stat.size });
+        }
+        return out.sort((a, b) => b.savedAt - a.savedAt);
+    } catch {
+        return [];
+    }
+}
+
+export async function readSnapshot(_event: IpcMainInvokeEvent, build: string): Promise<string | null> {
+    if (typeof build !== "string" || !BUILD_KEY_RE.test(build)) return null;
+    try {
+        const text = (await gunzipAsync(await fs.readFile(join(snapshotsDir(), build + SNAPSHOT_EXT)))).toString("utf8");
+        return text.length <= SNAPSHOT_MAX_BYTES ? text : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function writeSnapshot(_event: IpcMainInvokeEvent, build: string, json: string): Promise<{ ok: boolean; path?: string; bytes?: number }> {
+    if (typeof build !== "string" || !BUILD_KEY_RE.test(build)) return { ok: false };
+    if (typeof json !== "string" || json.length > SNAPSHOT_MAX_BYTES) return { ok: false };
+    try {
+        const dir = snapshotsDir();
+        await fs.mkdir(dir, { recursive: true });
+        const path = join(dir, build + SNAPSHOT_EXT);
+        const packed = await gzipAsync(json);
+        await fs.writeFile(path + ".tmp", packed);
+        await fs.rename(path + ".tmp", path);
+        for (const stale of (await listSnapshotBuilds()).slice(SNAPSHOT_MAX_BUILDS)) {
+            await fs.unlink(join(dir, stale.build + SNAPSHOT_EXT)).catch(() => {});
+        }
+        return { ok: true, path, bytes: packed.length };
+    } catch {
+        return { ok: false };
+    }
+}
+
+const PLUGIN_SOURCE_DIRS = ["src/userplugins", "src/plugins", "src/equicordplugins"];
+const PLUGIN_ENTRY_FILES = ["index.tsx", "index.ts"];
+const PLUGIN_SOURCE_MAX_BYTES = 1_000_000;
+const PLUGIN_NAME_RE = /^[\w .-]{1,64}$/;
+
+async function locatePluginSource(root: string, pluginName: string): Promise<{ path: string; relPath: string; text: string } | null> {
+    if (typeof root !== "string" || !isAbsolute(root) || typeof pluginName !== "string" || !PLUGIN_NAME_RE.test(pluginName)) return null;
+    const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const declares = new RegExp(`\\bname:\\s*["'\`]${pluginName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}["'\`]`);
+    for (const sub of PLUGIN_SOURCE_DIRS) {
+        const dir = join(root, sub);
+        const names = await fs.readdir(dir).catch(() => [] as string[]);
+        names.sort((a, b) => Number(normalize(b) === normalize(pluginName)) - Number(normalize(a) === normalize(pluginName)));
+        for (const name of names) {
+            for (const file of PLUGIN_ENTRY_FILES) {
+                const path = join(dir, name, file);
+                const text = await fs.readFile(path, "utf8").catch(() => null);
+                if (text && text.length <= PLUGIN_SOURCE_MAX_BYTES && declares.test(text)) return { path, relPath: relative(root, path).replaceAll("\\", "/"), text };
+            }
+        }
+    }
+    return null;
+}
+
+export async function readPluginSource(_event: IpcMainInvokeEvent, root: string, pluginName: string): Promise<{ path: string; relPath: string; text: string } | null> {
+    return locatePluginSource(root, pluginName);
+}
+
+export async function writePluginSource(_event: IpcMainInvokeEvent, root: string, pluginName: string, expected: string, text: string): Promise<{ ok: boolean; path?: string; reason?: string }> {
+    if (typeof text !== "string" || text.length > PLUGIN_SOURCE_MAX_BYTES) return { ok: false, reason: "invalid source" };
+    const current = await locatePluginSource(root, pluginName);
+    if (!current) return { ok: false, reason: "plugin source not found" };
+    if (current.text !== expected) return { ok: false, path: current.path, reason: "file changed on disk since the diff was made" };
+    try {
+        await fs.writeFile(current.path + ".tmp", text, "utf8");
+        await fs.rename(current.path + ".tmp", current.path);
+        return { ok: true, path: current.path };
+    } catch (e) {
+        return { ok: false, path: current.path, reason: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+const MAX_REACT_SNAPSHOTS = 20;
+const REACT_SNAPSHOT_MAX_BYTES = 2_000_000;
+const reactSnapshots = new Map<number, string>();
+let nextReactSnapshotId = 1;
+
+export function storeReactSnapshot(_event: IpcMainInvokeEvent, json: string): number | null {
+    if (typeof json !== "string" || json.length > REACT_SNAPSHOT_MAX_BYTES) return null;
+    if (reactSnapshots.size >= MAX_REACT_SNAPSHOTS) reactSnapshots.delete(reactSnapshots.keys().next().value!);
+    const id = nextReactSnapshotId++;
+    reactSnapshots.set(id, json);
+    return id;
+}
+
+export function getReactSnapshot(_event: IpcMainInvokeEvent, id: number): string | null {
+    return reactSnapshots.get(id) ?? null;
+}
+
+export function listReactSnapshots(): number[] {
+    return [...reactSnapshots.keys()];
+}
+
 export function getServerStatus(): ServerStatus {
     const uptime = stats.startedAt ? Date.now() - stats.startedAt : 0;
     return {
         running: server !== null,
-        port: PORT,
+        endpoint,
         stats: {
             ...stats,
             pendingRequests: pending.size,
             queuedRequests: requestQueue.length,
+            sessions: sessions.size,
+            streams: [...sessions.values()].reduce((n, s) => n + s.streams.size, 0),
             uptimeFormatted: uptime ? `${Math.floor(uptime / 60000)}m ${Math.floor((uptime % 60000) / 1000)}s` : null,
         },
     };
@@ -0,0 +1,92 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { createInterface } from "readline";
+
+import { InitializeParams, MCPRequest, MCPResponse, ToolCallParams } from "../types";
+import { indexSnapshot, loadSnapshot, type SnapshotIndex } from "./snapshotIndex";
+import { callOfflineTool, OFFLINE_TOOLS } from "./tools";
+
+const LATEST_PROTOCOL = "2025-06-18";
+const SUPPORTED_PROTOCOLS = new Set(["2024-11-05", "2025-03-26", "2025-06-18"]);
+const OUTPUT_MAX_LENGTH = 200_000;
+
+const rpcResult = (id: MCPResponse["id"], result: unknown): MCPResponse => ({ jsonrpc: "2.0", id, result });
+const rpcError = (id: MCPResponse["id"], code: number, message: string): MCPResponse => ({ jsonrpc: "2.0", id, error: { code, message } });
+const log = (message: string) => process.stderr.write(`[discord-mcp offline] ${message}\n`);
+
+function toolResult(value: unknown) {
+    const json = JSON.stringify(value, null, 1);
+    const text = json.length > OUTPUT_MAX_LENGTH ? json.slice(0, OUTPUT_MAX_LENGTH) + "\n...truncated" : json;
+    const isError = typeof value === "object" && value !== null && (value as { error?: unknown }).error === true;
+    return { content: [{ type: "text", text }], structuredContent: json.length > OUTPUT_MAX_LENGTH ? undefined : value, isError: isError || undefined };
+}
+
+function handle(ix: SnapshotIndex, request: MCPRequest): MCPResponse | null {
+    const { id } = request;
+    switch (request.method) {
+        case "initialize": {
+            const clientProtocol = (request.params as InitializeParams | undefined)?.protocolVersion;
+            const { build, savedAt } = ix.snapshot;
+            return rpcResult(id, {
+                protocolVersion: clientProtocol && SUPPORTED_PROTOCOLS.has(clientProtocol) ? clientProtocol : LATEST_PROTOCOL,
+                capabilities: { tools: { listChanged: false } },
+                serverInfo: { name: "discord-mcp-offline", title: `Discord module snapshot ${build}`, version: "1.0.0" },
+                instructions: `Read-only tools over a module snapshot of Discord build ${build} taken ${new Date(savedAt).toISOString()}. Nothing here touches a live client, so uniqueness is among the ${ix.ids.length} archived factories.`,
+            });
+        }
+        case "notifications/initialized":
+        case "notifications/cancelled":
+            return null;
+        case "ping":
+            return rpcResult(id, {});
+        case "tools/list":
+            return rpcResult(id, { tools: OFFLINE_TOOLS });
+        case "tools/call": {
+            const params = request.params as ToolCallParams | undefined;
+            if (!params?.name) return rpcError(id, -32602, "Missing tool name");
+            if (!OFFLINE_TOOLS.some(t => t.name === params.name)) return rpcError(id, -32602, `Unknown tool: ${params.name}`);
+            try {
+                return rpcResult(id, toolResult(callOfflineTool(ix, params.name, params.arguments ?? {})));
+            } catch (e) {
+                return rpcResult(id, toolResult({ error: true, message: e instanceof Error ? e.message : String(e), tool: params.name }));
+            }
+        }
+        default:
+            return id == null ? null : rpcError(id, -32601, `Method not found: ${request.method}`);
+    }
+}
+
+async function main(): Promise<void> {
+    const path = process.argv[2];
+    if (!path) {
+        log("usage: offline/server.ts <snapshot.json.gz>");
+        process.exit(2);
+    }
+
+    const started = Date.now();
+    const ix = indexSnapshot(await loadSnapshot(path));
+    log(`build ${ix.snapshot.build}: ${ix.ids.length} modules, ${ix.snapshot.intlKeys.size} intl keys, indexed in ${Date.now() - started}ms`);
+
+    const send = (response: MCPResponse) => process.stdout.write(JSON.stringify(response) + "\n");
+    for await (const line of createInterface({ input: process.stdin, crlfDelay: Infinity })) {
+        if (!line.trim()) continue;
+        let request: MCPRequest;
+        try {
+            request = JSON.parse(line);
+        } catch {
+            send(rpcError(null, -32700, "Parse error"));
+            continue;
+        }
+        const response = handle(ix, request);
+        if (response) send(response);
+    }
+}
+
+main().catch(e => {
+    log(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+});
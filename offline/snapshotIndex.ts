@@ -0,0 +1,85 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { promises as fs } from "fs";
+import { gunzipSync } from "zlib";
+
+import { type Edges, reverseEdges } from "../finds/depGraph";
+import { type ModuleSnapshot, parseSnapshot } from "../finds/moduleSnapshot";
+import { createNgramIndex } from "../finds/ngramIndex";
+import { SOURCE_INDEX } from "../tools/constants";
+
+const INTL_REF_RE = /#\{intl::([\w$+/]*)(?:::(\w+))?\}/g;
+const IDENT_CLASS = String.raw`(?:[A-Za-z_$][\w$]*)`;
+
+export interface SnapshotIndex {
+    readonly snapshot: ModuleSnapshot;
+    readonly ids: readonly string[];
+    readonly forward: Edges;
+    readonly reverse: Edges;
+    source(id: string): string;
+    hint(id: string): string | null;
+    keyOf(hash: string): string | null;
+    canonicalize(find: string): string;
+    canonicalizeRegex(regex: RegExp): RegExp;
+    candidates(needles: readonly string[]): readonly string[];
+    count(needle: string, earlyExit: number): { count: number; moduleIds: string[] };
+}
+
+export async function loadSnapshot(path: string): Promise<ModuleSnapshot> {
+    const raw = await fs.readFile(path);
+    const text = (path.endsWith(".gz") ? gunzipSync(raw) : raw).toString("utf8");
+    const snapshot = parseSnapshot(text);
+    if (!snapshot) throw new Error(`${path} is not a module snapshot archive (or uses an unsupported format version)`);
+    return snapshot;
+}
+
+function intlRef(hash: string, inRegex: boolean): string {
+    const bracketed = !Number.isNaN(Number(hash[0])) || hash.includes("+") || hash.includes("/");
+    if (bracketed) return inRegex ? String.raw`(?:\["${hash}"\])`.replaceAll("+", "\\+") : `["${hash}"]`;
+    return inRegex ? String.raw`(?:\.${hash})` : `.${hash}`;
+}
+
+export function indexSnapshot(snapshot: ModuleSnapshot): SnapshotIndex {
+    const ids = [...snapshot.sources.keys()];
+    const hashOfKey = new Map<string, string>();
+    for (const [hash, key] of snapshot.intlKeys) hashOfKey.set(key, hash);
+
+    const ngrams = createNgramIndex(SOURCE_INDEX.BUCKET_BITS);
+    for (const [id, source] of snapshot.sources) ngrams.add(id, source);
+
+    const source = (id: string) => snapshot.sources.get(id) ?? "";
+    const resolveIntl = (text: string, inRegex: boolean) => text.replace(INTL_REF_RE, (full, key: string, modifier?: string) => {
+        const hash = modifier === "raw" ? key : hashOfKey.get(key);
+        return hash ? intlRef(hash, inRegex) : full;
+    });
+    const candidates = (needles: readonly string[]) => ngrams.candidates(needles) ?? ids;
+
+    return {
+        snapshot,
+        ids,
+        forward: snapshot.imports,
+        reverse: reverseEdges(snapshot.imports),
+        source,
+        hint: id => snapshot.hints.get(id) ?? null,
+        keyOf: hash => snapshot.intlKeys.get(hash) ?? null,
+        canonicalize: find => resolveIntl(find, false),
+        canonicalizeRegex: regex => new RegExp(resolveIntl(regex.source, true).replaceAll("\\i", IDENT_CLASS), regex.flags),
+        candidates,
+        count(needle, earlyExit) {
+            const moduleIds: string[] = [];
+            let count = 0;
+            if (!needle) return { count, moduleIds };
+            for (const id of candidates([needle])) {
+                if (count >= earlyExit) break;
+                if (!source(id).includes(needle)) continue;
+                count++;
+                if (moduleIds.length < 5) moduleIds.push(id);
+            }
+            return { count, moduleIds };
+        },
+    };
+}
@@ -0,0 +1,236 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { bfsPath, neighborhood } from "../finds/depGraph";
+import { type FindCorpus, rankFinds } from "../finds/findRanking";
+import { fingerprintModule } from "../finds/moduleFingerprint";
+import { emitPatchCode, matchPatch, patchVerdict, snippet, UNSAFE_PATTERN_RE } from "../finds/patchCheck";
+import { CONTEXT, DEFAULT_TOOL_LIMIT, INTL_HASH_FULL_RE, LIMITS } from "../tools/constants";
+import { TOOLS } from "../tools/definitions";
+import { GraphToolArgs, IntlToolArgs, MCPTool, ModuleToolArgs, SearchToolArgs, TestPatchToolArgs, ToolResult } from "../types";
+import type { SnapshotIndex } from "./snapshotIndex";
+
+const OFFLINE_ACTIONS: Readonly<Record<string, readonly string[] | null>> = {
+    search: null,
+    module: ["extract", "genFinds", "fingerprint"],
+    graph: ["imports", "importedBy", "path", "neighborhood"],
+    testPatch: null,
+    intl: ["reverse"],
+};
+
+export const OFFLINE_TOOLS: MCPTool[] = TOOLS.filter(t => Object.hasOwn(OFFLINE_ACTIONS, t.name)).map(t => {
+    const actions = OFFLINE_ACTIONS[t.name];
+    if (!actions) return t;
+    const { properties } = t.inputSchema;
+    return {
+        ...t,
+        description: `${t.description} Offline snapshot: only ${actions.join(", ")}.`,
+        inputSchema: { ...t.inputSchema, properties: { ...properties, action: { ...properties.action, enum: [...actions] } } },
+    };
+});
+
+const missingArg = (name: string): ToolResult => ({ error: true, message: `${name} required` });
+const moduleNotFound = (id: string): ToolResult => ({ error: true, message: `Module ${id} not found in snapshot` });
+const unsupported = (tool: string): ToolResult => ({ error: true, message: `${tool} action not available offline. Supported: ${OFFLINE_ACTIONS[tool]!.join(", ")}` });
+const clamp = (v: number | undefined, def: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v ?? def));
+
+function parseRegex(pattern: string): RegExp | null {
+    const lastSlash = pattern.lastIndexOf("/");
+    if (!pattern.startsWith("/") || lastSlash <= 0) return null;
+    return new RegExp(pattern.slice(1, lastSlash), pattern.slice(lastSlash + 1).replace("g", ""));
+}
+
+function countRegex(ix: SnapshotIndex, regex: RegExp, earlyExit: number): number {
+    let count = 0;
+    for (const id of ix.ids) if (regex.test(ix.source(id)) && ++count >= earlyExit) break;
+    return count;
+}
+
+function offlineSearch(ix: SnapshotIndex, args: SearchToolArgs): ToolResult {
+    const { pattern, patterns } = args;
+    const limit = args.limit ?? LIMITS.SEARCH.DEFAULT_LIMIT;
+    if (args.limit !== undefined && args.limit < 1) return { error: true, message: "limit must be >= 1 (omit for default)" };
+
+    if (patterns?.length) {
+        if (patterns.length < LIMITS.SEARCH.MIN_PATTERNS || patterns.length > LIMITS.SEARCH.MAX_PATTERNS) return { error: true, message: `patterns must have ${LIMITS.SEARCH.MIN_PATTERNS}-${LIMITS.SEARCH.MAX_PATTERNS} entries` };
+        const canon = patterns.map(ix.canonicalize);
+        const matches: Array<{ id: string; hint: string | null; matchedPatterns: number; snippets: string[] }> = [];
+        let count = 0;
+        for (const id of ix.candidates(canon)) {
+            const source = ix.source(id);
+            if (!canon.every(p => source.includes(p))) continue;
+            count++;
+            if (matches.length < limit) matches.push({ id, hint: ix.hint(id), matchedPatterns: canon.length, snippets: canon.map(p => snippet(source, source.indexOf(p), p.length, LIMITS.SEARCH.CANON_SNIPPET_BEFORE, LIMITS.SEARCH.CANON_SNIPPET_AFTER)) });
+        }
+        return { multiPattern: true, patterns, count, matches };
+    }
+
+    if (!pattern) return missingArg("pattern");
+
+    let regex: RegExp | null;
+    try {
+        regex = parseRegex(pattern) ?? (args.regex ? new RegExp(pattern) : null);
+    } catch {
+        return { error: true, message: `Invalid regex: ${pattern}` };
+    }
+    if (regex) {
+        if (UNSAFE_PATTERN_RE.test(regex.source)) return { error: true, code: "UNSAFE_PATTERN", message: "Pattern has a nested unbounded quantifier that can cause catastrophic backtracking. Rewrite with a bounded {0,N} or remove the outer quantifier" };
+        const canon = ix.canonicalizeRegex(regex);
+        const matches: Array<{ id: string; hint: string | null; match: string; context: string }> = [];
+        let count = 0;
+        for (const id of ix.ids) {
+            const source = ix.source(id);
+            const match = source.match(canon);
+            if (match?.index === undefined) continue;
+            count++;
+            if (matches.length < limit) matches.push({ id, hint: ix.hint(id), match: match[0].slice(0, LIMITS.SEARCH.MATCH_PREVIEW), context: snippet(source, match.index, match[0].length, CONTEXT.SEARCH_SNIPPET, CONTEXT.SEARCH_SNIPPET) });
+        }
+        return { count, pattern, matches };
+    }
+
+    const canon = ix.canonicalize(pattern);
+    const keys = ix.candidates([canon]).filter(id => ix.source(id).includes(canon));
+    const ids = keys.slice(0, limit);
+    return {
+        count: keys.length,
+        ids,
+        preview: ids.map(id => {
+            const source = ix.source(id);
+            return { id, hint: ix.hint(id), snippet: snippet(source, source.indexOf(canon), canon.length, CONTEXT.SEARCH_SNIPPET, CONTEXT.SEARCH_SNIPPET) };
+        }),
+    };
+}
+
+function offlineCorpus(ix: SnapshotIndex): FindCorpus {
+    return {
+        keyOf: hash => ix.keyOf(hash),
+        countFinds: (finds, earlyExit) => new Map(finds.map(f => [f, ix.count(ix.canonicalize(f), earlyExit).count])),
+        countRegex: (regex, earlyExit) => countRegex(ix, regex, earlyExit),
+        countFragment: (fragment, earlyExit) => ix.count(fragment, earlyExit).count,
+    };
+}
+
+function offlineGenFinds(ix: SnapshotIndex, id: string, args: ModuleToolArgs): ToolResult {
+    const source = ix.source(id);
+    const ranked = rankFinds(source, offlineCorpus(ix), { minScore: clamp(args.minScore, 6, 1, 1000), limit: clamp(args.limit, 20, 1, 100), requireUnique: args.requireUnique });
+    return { id, sourceSize: source.length, candidateCount: ranked.candidateCount, uniqueCount: ranked.uniqueCount, uniquenessScope: "snapshot", finds: ranked.finds };
+}
+
+function offlineModule(ix: SnapshotIndex, args: ModuleToolArgs): ToolResult {
+    const { action, id } = args;
+    if (action && !OFFLINE_ACTIONS.module!.includes(action)) return unsupported("module");
+    if (!id) return missingArg("id");
+    const source = ix.source(id);
+    if (!source) return moduleNotFound(id);
+
+    if (action === "genFinds") return offlineGenFinds(ix, id, args);
+    if (action === "fingerprint") return { id, ...fingerprintModule(source), note: "Build-stable landmark fingerprint (intl keys, store names, error strings, css hashes) for cross-build module identity" };
+
+    const maxLength = Math.min(args.maxLength ?? LIMITS.MODULE.SOURCE_MAXLENGTH_DEFAULT, LIMITS.MODULE.SOURCE_MAXLENGTH_CAP);
+    return { id, patched: false, size: source.length, truncated: source.length > maxLength, source: source.slice(0, maxLength) };
+}
+
+function offlineGraph(ix: SnapshotIndex, args: GraphToolArgs): ToolResult {
+    const { action, id, to } = args;
+    if (action && !OFFLINE_ACTIONS.graph!.includes(action)) return unsupported("graph");
+    if (!id) return missingArg("id");
+    if (!ix.source(id)) return moduleNotFound(id);
+    const limit = clamp(args.limit, DEFAULT_TOOL_LIMIT, 1, 200);
+    const node = (x: string) => ({ id: x, hint: ix.hint(x) });
+
+    if (action === "path") {
+        if (!to) return missingArg("to");
+        const depth = clamp(args.depth, 12, 1, 50);
+        const fwd = bfsPath(ix.forward, id, to, depth);
+        if (fwd) return { from: id, to, direction: "imports", length: fwd.length - 1, hops: fwd.map(node) };
+        const rev = bfsPath(ix.reverse, id, to, depth);
+        if (rev) return { from: id, to, direction: "importedBy", length: rev.length - 1, hops: rev.reverse().map(node) };
+        return { from: id, to, found: false, message: `No dependency path within depth ${depth}` };
+    }
+
+    if (action === "neighborhood") {
+        const { nodes, edges, truncated } = neighborhood(ix.forward, ix.reverse, id, args.limit != null ? limit : 60);
+        return { id, nodeCount: nodes.length, nodes: nodes.map(node), edges, truncated: truncated ? true : undefined };
+    }
+
+    const direction = action === "importedBy" ? "importedBy" : "imports";
+    const deps = (direction === "imports" ? ix.forward : ix.reverse).get(id) ?? [];
+    return { id, direction, count: deps.length, edges: deps.slice(0, limit).map(node), truncated: deps.length > limit ? true : undefined };
+}
+
+function offlineTestPatch(ix: SnapshotIndex, args: TestPatchToolArgs): ToolResult {
+    const { find: rawFind, match: matchPattern, replace: replaceStr } = args;
+    if (args.action) return { error: true, message: `testPatch.${args.action} not available offline` };
+    if (!rawFind || rawFind.length < 3) return { error: true, message: "find required (min 3 chars)" };
+    if (!matchPattern) return missingArg("match");
+
+    const findStr = ix.canonicalize(rawFind);
+    const moduleIds = ix.candidates([findStr]).filter(id => ix.source(id).includes(findStr)).slice(0, 6);
+    const findUnique = moduleIds.length === 1;
+
+    let regex: RegExp;
+    try {
+        const parsed = parseRegex(matchPattern);
+        regex = parsed ? ix.canonicalizeRegex(parsed) : new RegExp(ix.canonicalize(matchPattern).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    } catch {
+        return { error: true, message: `Invalid match regex: ${matchPattern}` };
+    }
+    const unsafePattern = UNSAFE_PATTERN_RE.test(matchPattern);
+
+    const source = moduleIds[0] ? ix.source(moduleIds[0]) : null;
+    const outcome = source && !unsafePattern ? matchPatch(source, regex, replaceStr, CONTEXT) : null;
+    let syntaxError: string | null = null;
+    if (outcome?.replaced != null) {
+        try { new Function(outcome.replaced); } catch (e) { syntaxError = (e instanceof Error ? e.message : String(e)).slice(0, LIMITS.TEST_PATCH.SYNTAX_ERROR_SLICE); }
+    }
+
+    const verdict = patchVerdict({ findModuleCount: moduleIds.length, unsafePattern, matchWorks: outcome?.matchWorks ?? false, replaceNoop: outcome?.replaceNoop ?? false, severities: syntaxError ? ["error"] : [] });
+    const patchCode = args.emitCode && replaceStr != null && verdict === "PASS"
+        ? emitPatchCode(rawFind, matchPattern, replaceStr, { group: args.group, noWarn: args.noWarn }, re => ix.canonicalizeRegex(re))
+        : undefined;
+
+    return {
+        find: rawFind,
+        findCanonicalized: findStr !== rawFind ? findStr : undefined,
+        match: matchPattern,
+        matchCanonicalized: `/${regex.source}/${regex.flags}`,
+        replace: replaceStr ?? null,
+        moduleId: findUnique ? moduleIds[0] : undefined,
+        findUnique,
+        findModuleCount: moduleIds.length,
+        findModules: moduleIds.slice(0, LIMITS.TEST_PATCH.MULTI_MATCH_SLICE),
+        matchWorks: outcome?.matchWorks ?? false,
+        matchedText: outcome?.matchedText ?? null,
+        matchContext: outcome?.matchContext ?? null,
+        captureGroups: outcome?.captureGroups ?? 0,
+        replacementPreview: outcome?.replacementPreview ?? null,
+        syntaxError: syntaxError ?? undefined,
+        verdict,
+        patchCode,
+    };
+}
+
+function offlineIntl(ix: SnapshotIndex, args: IntlToolArgs): ToolResult {
+    const { action, hash } = args;
+    if (action && action !== "reverse") return unsupported("intl");
+    if (!hash) return missingArg("hash");
+    if (!INTL_HASH_FULL_RE.test(hash)) return { error: true, message: `Invalid hash format: expected 6 base64 chars, got "${hash}" (${hash.length} chars)` };
+    const key = ix.keyOf(hash);
+    const message = ix.snapshot.intlMessages.get(hash) ?? null;
+    const exists = message !== null;
+    return { hash, key, find: exists ? (key ? `#{intl::${key}}` : `#{intl::${hash}::raw}`) : null, message, exists, warning: exists ? undefined : "Hash not found in the snapshot's intl messages" };
+}
+
+export function callOfflineTool(ix: SnapshotIndex, name: string, args: Record<string, unknown>): ToolResult {
+    switch (name) {
+        case "search": return offlineSearch(ix, args as SearchToolArgs);
+        case "module": return offlineModule(ix, args as ModuleToolArgs);
+        case "graph": return offlineGraph(ix, args as GraphToolArgs);
+        case "testPatch": return offlineTestPatch(ix, args as TestPatchToolArgs);
+        case "intl": return offlineIntl(ix, args as IntlToolArgs);
+        default: return { error: true, message: `Unknown tool: ${name}` };
+    }
+}
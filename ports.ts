@@ -0,0 +1,13 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const DEFAULT_PORT = 8486;
+export const MIN_PORT = 1024;
+export const MAX_PORT = 65535;
+
+export function isUsablePort(port: unknown): port is number {
+    return Number.isInteger(port) && (port as number) >= MIN_PORT && (port as number) <= MAX_PORT;
+}
@@ -5,19 +5,24 @@
  */
 
 export const DEFAULT_TIMEOUT_MS = 30_000;
+export const PROGRESS_TIMEOUT_CAP_MS = 600_000;
 
 const TIMEOUT_MS: Readonly<Record<string, number>> = {
     "module:loadLazy": 120_000,
     "module:watch": 120_000,
     "module:watchGet": 60_000,
+    "module:buildDelta": 120_000,
+    "module:exportSnapshot": 120_000,
     "trace:start": 120_000,
     "trace:store": 120_000,
     "intercept:set": 120_000,
     "patch:analyze": 60_000,
     "patch:finds": 60_000,
     "patch:suggestFix": 120_000,
+    "patch:migrate": 120_000,
     "intl:recover": 60_000,
     "patch:verifyApplied": 60_000,
+    "patch:history": 120_000,
     batch: 120_000,
     search: 60_000,
 };
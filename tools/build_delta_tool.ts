@@ -0,0 +1,96 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PluginNative } from "@utils/types";
+
+import { type FingerprintedModule, matchAcrossBuilds } from "../finds/buildDelta";
+import { isBuildKey, parseFingerprints, serializeFingerprints } from "../finds/fingerprintPersist";
+import { fingerprintModule } from "../finds/moduleFingerprint";
+import { ModuleToolArgs, ToolResult } from "../types";
+import { wreq } from "../webpack";
+import { LIMITS } from "./constants";
+import { readBuildInfo } from "./discord_tool";
+import * as u from "./utils";
+
+const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
+
+let currentSet: { build: string; moduleCount: number; modules: FingerprintedModule[] } | null = null;
+
+export function currentBuild(): string | null {
+    const { versionHash } = readBuildInfo();
+    return isBuildKey(versionHash) ? versionHash : null;
+}
+
+export async function fingerprintLoadedModules(build: string): Promise<FingerprintedModule[]> {
+    const ids = u.getModuleIds();
+    if (currentSet?.build === build && currentSet.moduleCount === ids.length) return currentSet.modules;
+
+    const modules: FingerprintedModule[] = [];
+    for (let i = 0; i < ids.length; i++) {
+        if (i > 0 && i % LIMITS.MODULE.FINGERPRINT_CHUNK === 0) await new Promise(r => setTimeout(r, 0));
+        const factory = wreq.m[ids[i]];
+        if (!factory) continue;
+        const fp = fingerprintModule(String(factory));
+        if (fp.landmarkCount > 0) modules.push({ id: ids[i], fp });
+    }
+    currentSet = { build, moduleCount: ids.length, modules };
+    return modules;
+}
+
+export async function initBuildFingerprints(): Promise<number> {
+    const build = currentBuild();
+    if (!build) return 0;
+    const modules = await fingerprintLoadedModules(build);
+    const json = serializeFingerprints(build, modules);
+    const stored = (await Native.listFingerprintBuilds()).find(b => b.build === build);
+    if (stored && stored.bytes >= json.length) return 0;
+    const { ok } = await Native.writeFingerprints(build, json);
+    return ok ? modules.length : 0;
+}
+
+export async function handleBuildDelta(args: ModuleToolArgs): Promise<ToolResult> {
+    const build = currentBuild();
+    if (!build) return { error: true, message: "Current build has no versionHash (GLOBAL_ENV.VERSION_HASH missing)" };
+
+    const storedBuilds = (await Native.listFingerprintBuilds()).map(b => ({ build: b.build, savedAt: new Date(b.savedAt).toISOString() }));
+    const from = args.build ?? storedBuilds.find(b => b.build !== build)?.build;
+    if (!from) return { error: true, message: "No previous build fingerprints stored yet. They are saved on startup, so run again after the next Discord update", current: build, storedBuilds };
+    if (!isBuildKey(from)) return { error: true, message: `Invalid build: ${from}`, storedBuilds };
+
+    const text = await Native.readFingerprints(from);
+    const prev = text ? parseFingerprints(text) : null;
+    if (!prev) return { error: true, message: `No stored fingerprints for build ${from}`, storedBuilds };
+
+    const curr = await fingerprintLoadedModules(build);
+    const minScore = u.clamp(args.minScore, 0.34, 0.05, 1);
+    const delta = matchAcrossBuilds(prev.modules, curr, minScore);
+
+    if (args.id) {
+        const match = delta.matched.find(m => m.prevId === args.id || m.currId === args.id);
+        if (match) return { from, to: build, ...match, renumbered: match.prevId !== match.currId };
+        if (delta.removed.includes(args.id)) return { from, to: build, prevId: args.id, currId: null, status: "removed", note: "No module in the current build scores above minScore; retry with a lower minScore" };
+        if (delta.added.includes(args.id)) return { from, to: build, prevId: null, currId: args.id, status: "added" };
+        return { error: true, message: `Module ${args.id} has no landmarks in either build` };
+    }
+
+    const limit = u.clamp(args.limit, LIMITS.MODULE.BUILD_DELTA_DEFAULT_LIMIT, 1, LIMITS.MODULE.BUILD_DELTA_MAX_LIMIT);
+    return {
+        from,
+        to: build,
+        counts: {
+            previous: prev.modules.length,
+            current: curr.length,
+            matched: delta.matched.length,
+            renumbered: delta.matched.filter(m => m.prevId !== m.currId).length,
+            added: delta.added.length,
+            removed: delta.removed.length,
+        },
+        matched: delta.matched.slice(0, limit).map(m => ({ prevId: m.prevId, currId: m.currId, score: +m.score.toFixed(3) })),
+        added: delta.added.slice(0, limit),
+        removed: delta.removed.slice(0, limit),
+        storedBuilds,
+    };
+}
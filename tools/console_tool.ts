@@ -6,6 +6,7 @@
 
 import { attributeStack } from "../finds/stackAttribution";
 import { ConsoleToolArgs, ToolResult } from "../types";
+import { paginate } from "./pagination";
 import { getModulePatchedBy } from "./utils";
 
 export interface ConsoleEntry {
@@ -96,7 +97,7 @@ export function recentConsole(level?: ConsoleEntry["level"], sinceMs?: number, l
     return out.reverse();
 }
 
-export function handleConsole(args: ConsoleToolArgs): ToolResult {
+export async function handleConsole(args: ConsoleToolArgs): Promise<ToolResult> {
     const action = args.action ?? "recent";
 
     if (action === "clear") {
@@ -117,11 +118,13 @@ export function handleConsole(args: ConsoleToolArgs): ToolResult {
     }
 
     const limit = Math.min(Math.max(args.limit ?? DEFAULT_RECENT_LIMIT, 1), 100);
-    const entries = recentConsole(args.level, args.sinceMs, limit);
+    const paged = await paginate("console", args, limit, () => recentConsole(args.level, args.sinceMs, MAX_ENTRIES).reverse());
+    if ("error" in paged) return paged;
     return {
-        count: entries.length,
+        count: paged.page.length,
         capturing: originals !== null,
-        entries: entries.map(e => {
+        nextCursor: paged.nextCursor,
+        entries: [...paged.page].reverse().map(e => {
             const base = { agoMs: Date.now() - e.ts, level: e.level, text: e.text };
             if (!e.stackModules?.length) return base;
             const patchedBy = [...new Set(e.stackModules.flatMap(id => getModulePatchedBy(id)))];
@@ -65,8 +65,11 @@ export const CACHE_TTL = {
     LOCALE_MESSAGES_MS: 300_000,
     MODULE_IDS_MS: 5_000,
     CSS_INDEX_MS: 60_000,
+    STORED_SNAPSHOT_MS: 60_000,
 } as const;
 
+export const SOURCE_INDEX = { BUCKET_BITS: 12, WARM_CHUNK: 500 } as const;
+
 export const INTL_DETECTION = {
     MIN_LOCALE_KEY_COUNT: 10_000,
 } as const;
@@ -126,6 +129,9 @@ export const LIMITS = {
         DEFAULT_DEPTH: 10,
         DEFAULT_LIMIT: 20,
         DEFAULT_BREADTH: 10,
+        SNAPSHOT_DEFAULT_DEPTH: 40,
+        SNAPSHOT_MAX_NODES: 2000,
+        SNAPSHOT_MAX_PROPS: 20,
     },
     STORE: {
         LIST_SLICE: 100,
@@ -136,6 +142,11 @@ export const LIMITS = {
         SNAPSHOT_SERIALIZE: 500,
         SNAPSHOT_TOTAL_BUDGET: 8000,
     },
+    RESOURCES: {
+        LIST_SLICE: 500,
+        MAX_SUBSCRIPTIONS: 50,
+        UPDATE_THROTTLE_MS: 1000,
+    },
     FLUX: {
         SLICE: 100,
         MAX_LIMIT: 1000,
@@ -216,6 +227,11 @@ export const LIMITS = {
         WATCHGET_RESULT_SLICE: 50,
         WATCHSTOP_RESULT_SLICE: 100,
         STRUCTURE_VARIABLES_OUT: 20,
+        BUILD_DELTA_DEFAULT_LIMIT: 50,
+        BUILD_DELTA_MAX_LIMIT: 500,
+        FINGERPRINT_CHUNK: 500,
+        SNAPSHOT_CHUNK: 2000,
+        LAZY_PROGRESS_INTERVAL_MS: 1000,
     },
     PLUGIN: {
         LIST_MAX_FILTERED: 100,
@@ -250,6 +266,8 @@ export const LIMITS = {
         EXCESSIVE_RANGE_ERROR: 500,
         LARGE_LOOKBEHIND: 100,
         MAX_CAPTURES: 4,
+        SYNTH_FIND_CANDIDATES: 40,
+        SYNTH_ALTERNATIVE_FINDS: 3,
     },
     PATCH: {
         UNIQUE_EARLY_EXIT: 11,
@@ -285,6 +303,21 @@ export const LIMITS = {
         RAW_FIND_SLICE: 200,
         REPLACEMENT_MATCH_SLICE: 150,
         REPLACEMENT_REPLACE_SLICE: 100,
+        MIGRATE_PREVIOUS_CANDIDATES: 6,
+        REPLACE_FN_BUDGET_MS: 50,
+        REPLACE_FN_PRODUCED_SLICE: 200,
+    },
+    SWEEP: {
+        SETTLE_MS: 15_000,
+        HISTORY_MAX_RUNS: 40,
+        CONSOLE_WINDOW_MS: 120_000,
+        CONSOLE_ERROR_LIMIT: 200,
+        FIND_SLICE: 100,
+        DEFAULT_TRANSITIONS: 10,
+    },
+    PAGE: {
+        TTL_MS: 300_000,
+        MAX_ENTRIES: 32,
     },
     ANALYSIS: {
         SCORE_MIN: 1,
@@ -10,16 +10,17 @@ export const TOOLS: MCPTool[] = [
     {
         name: "module",
         description:
-            "Webpack modules. find: by props/code/displayName/className/exportName/pattern. extract: source. exports: list. context: code around pattern. diff: patched vs original. functionAt: full function at pattern. structure: outline without source. stats: counts. loadLazy: load lazy chunks. watch/watchGet/watchStop: track newly-registered modules. suggest: find patch anchors. genFinds: exhaustively enumerate build-stable candidate finds (suggest power-mode: excludes volatile module-id spans, resolves intl to #{intl::KEY}, ranks by durability, unique = among loaded factories). fingerprint: build-stable landmark set (intl keys, store names, error strings) for cross-build module identity. annotate: intl-resolved source. css: CSS class index/lookup. explain: one-call dossier (role, real exports, imports, importedBy count, patchedBy, intl/store/dispatch fingerprint).",
+            "Webpack modules. find: by props/code/displayName/className/exportName/pattern. extract: source. exports: list. context: code around pattern. diff: patched vs original. functionAt: full function at pattern. structure: outline without source. stats: counts. loadLazy: load lazy chunks. watch/watchGet/watchStop: track newly-registered modules. suggest: find patch anchors. genFinds: exhaustively enumerate build-stable candidate finds (suggest power-mode: excludes volatile module-id spans, resolves intl to #{intl::KEY}, ranks by durability, unique = among loaded factories). fingerprint: build-stable landmark set (intl keys, store names, error strings) for cross-build module identity. buildDelta: match every module of a stored build (fingerprints saved per versionHash on startup) to the current build, returns matched/added/removed ids (id: look up one module, build: stored versionHash, default most recent other build). exportSnapshot: write every loaded factory source, the dependency graph, the intl hash map and build info to a gzipped archive in userData for offline analysis with offline/server.ts. annotate: intl-resolved source. css: CSS class index/lookup. explain: one-call dossier (role, real exports, imports, importedBy count, patchedBy, intl/store/dispatch fingerprint).",
         inputSchema: {
             type: "object",
             properties: {
                 action: {
                     type: "string",
-                    enum: ["find", "extract", "exports", "context", "diff", "functionAt", "structure", "stats", "loadLazy", "watch", "watchGet", "watchStop", "suggest", "genFinds", "fingerprint", "annotate", "css", "explain"],
+                    enum: ["find", "extract", "exports", "context", "diff", "functionAt", "structure", "stats", "loadLazy", "watch", "watchGet", "watchStop", "suggest", "genFinds", "fingerprint", "buildDelta", "exportSnapshot", "annotate", "css", "explain"],
                 },
                 id: { type: "string", description: "Module ID" },
-                minScore: { type: "number", description: "genFinds: min content score, summed identifier and string lengths (default 6)" },
+                build: { type: "string", description: "buildDelta: stored versionHash to diff against" },
+                minScore: { type: "number", description: "genFinds: min content score, summed identifier and string lengths (default 6). buildDelta: min similarity 0-1 (default 0.34)" },
                 requireUnique: { type: "boolean", description: "genFinds: only return finds unique among loaded factories", default: false },
                 props: { type: "array", items: { type: "string" }, description: "Find by export props" },
                 code: { type: "array", items: { type: "string" }, description: "Find by code in exports" },
@@ -32,7 +33,8 @@ export const TOOLS: MCPTool[] = [
                 patched: { type: "boolean", description: "Patched source (false=original)", default: true },
                 all: { type: "boolean", description: "All matches", default: false },
                 limit: { type: "number", default: 20 },
-                maxLength: { type: "number", description: "Max chars for extract", default: 50000 },
+                maxLength: { type: "number", description: "Max chars per extract page", default: 50000 },
+                cursor: { type: "string", description: "find by pattern, extract: nextCursor from the previous page" },
                 chars: { type: "number", description: "Context chars", default: 100 },
                 duration: { type: "number", description: "Watch duration ms (5000-120000)", default: 30000 },
                 maxCaptures: { type: "number", default: 100 },
@@ -50,7 +52,8 @@ export const TOOLS: MCPTool[] = [
                 action: { type: "string", enum: ["find", "list", "state", "call", "snapshot", "links"] },
                 name: { type: "string", description: "Store name (auto-resolves)" },
                 method: { type: "string", description: "Method/getter for state/call. Also filters the find listing" },
-                args: { type: "array", items: { type: "string" }, description: "Args for call" },
+                args: { type: "array", items: {}, description: "Args for call" },
+                cursor: { type: "string", description: "list: nextCursor from the previous page" },
             },
         },
     },
@@ -66,6 +69,7 @@ export const TOOLS: MCPTool[] = [
                 query: { type: "string", description: "Search text" },
                 moduleId: { type: "string", description: "Module ID for scan" },
                 limit: { type: "number", default: 20 },
+                cursor: { type: "string", description: "search: nextCursor from the previous page" },
             },
         },
     },
@@ -82,25 +86,35 @@ export const TOOLS: MCPTool[] = [
                 payload: { type: "object", description: "Dispatch payload" },
                 filter: { type: "string", description: "Case-insensitive filter" },
                 limit: { type: "number", default: 100, description: "Max events/handlers/dependents returned" },
+                cursor: { type: "string", description: "events: nextCursor from the previous page" },
             },
         },
     },
     {
         name: "patch",
-        description: "Patch validation. unique: find matches 1 module. analyze: scan all plugins for broken patches. plugin: one plugin's patches+health. lint: pattern quality score. finds: validate webpack finders. conflicts: modules patched by multiple plugins. overlaps: simulate a module's patches in registration order to catch order-dependent breakage where one plugin's rewrite destroys another's anchor (needs id or find). diff: patches targeting a module. broken: unconsumed patches. suggestFix: for broken patches (all, or one plugin via pluginName, or a single find), locate the module the stale find still partially matches and generate fresh durable unique replacement finds. Pass match to also diagnose the match regex per candidate and return a verified adjusted match when repairable. verifyApplied: prove a plugin's patches actually took effect (per-patch APPLIED/NOT_APPLIED/FIND_DEAD status + source-change check + recent console errors).",
+        description: "Patch validation. unique: find matches 1 module. analyze: scan all plugins for broken patches. Patches whose fromBuild/toBuild excludes the running build are counted as outOfRange, not broken. plugin: one plugin's patches+health. Function replacements are run on the real match and report produced text, syntax check or replaceError. The 50 ms budget is checked between replacer calls, so it stops runaway global replaces but cannot interrupt a single slow or non-terminating call. lint: pattern quality score. finds: validate webpack finders. conflicts: modules patched by multiple plugins. overlaps: simulate a module's patches in registration order to catch order-dependent breakage where one plugin's rewrite destroys another's anchor (needs id or find). diff: patches targeting a module. broken: unconsumed patches. suggestFix: for broken patches (all, or one plugin via pluginName, or a single find), locate the module the stale find still partially matches and generate fresh durable unique replacement finds. Pass match to also diagnose the match regex per candidate and return a verified adjusted match when repairable. With match, replace and emitCode, each candidate also gets the ready-to-paste patch code. migrate: after a Discord update, locate each broken patch's module in a stored snapshot of the previous build (module.exportSnapshot), map it to its successor by fingerprint, and propose a new unique find plus a diagnosed match with a verified replace preview (all plugins, or pluginName; build: stored versionHash, default most recent other build). writeBack: insert (or with overwrite, replace) the find/match/replace patch at index in pluginName's patches array in the dev checkout (checkoutRoot setting). Returns a unified diff and the testPatch verdict, and writes only when called again with confirm: true and a PASS verdict. obsolete: list patches and replacements whose toBuild is below the running build, so they never apply again and can be deleted (all plugins, or pluginName). verifyApplied: prove a plugin's patches actually took effect (per-patch APPLIED/NOT_APPLIED/FIND_DEAD status + source-change check + recent console errors + functionReplacements run against the module under the same between-calls budget). history: results of the regression sweep that runs verifyApplied for every enabled plugin after each launch or reload. Lists patches not applied in the latest run with the run and build where they stopped applying, and per-patch status changes between runs, flagging build changes (pluginName filters, limit caps transitions, refresh runs a sweep now). hotApply: apply find/match/replace to a module that is defined but not yet required (e.g. a lazy chunk) through the webpack patcher, without reloading. Target is id or the unique find. Calling it again on the same module replaces the previous attempt. Refused for instantiated modules, which need reloadDiscord. hotRevert: restore the factory from before hotApply (id, or every hot patch).",
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["unique", "analyze", "plugin", "lint", "finds", "conflicts", "overlaps", "diff", "broken", "suggestFix", "verifyApplied"] },
+                action: { type: "string", enum: ["unique", "analyze", "plugin", "lint", "finds", "conflicts", "overlaps", "diff", "broken", "suggestFix", "migrate", "writeBack", "obsolete", "verifyApplied", "history", "hotApply", "hotRevert"] },
                 find: { type: "string", description: "Find string (supports #{intl::KEY})" },
                 match: { type: "string", description: "/regex/flags (\\i for minified vars)" },
                 replace: { type: "string", description: "Replacement" },
                 str: { type: "string", description: "Alt find for unique" },
-                id: { type: "string", description: "Module ID for diff" },
+                id: { type: "string", description: "Module ID for diff, overlaps, hotApply and hotRevert" },
                 pluginName: { type: "string" },
+                build: { type: "string", description: "migrate: stored snapshot versionHash to migrate from" },
+                emitCode: { type: "boolean", description: "suggestFix: with match and replace, emit the patches: [...] TypeScript literal per candidate" },
+                group: { type: "boolean", description: "emitCode/writeBack: add group: true" },
+                noWarn: { type: "boolean", description: "emitCode/writeBack: add noWarn: true" },
+                index: { type: "number", description: "writeBack: position in the patches array (default: append)" },
+                overwrite: { type: "boolean", description: "writeBack: replace the entry at index instead of inserting" },
+                confirm: { type: "boolean", description: "writeBack: write the file. Omit to preview the diff" },
+                refresh: { type: "boolean", description: "history: run a regression sweep before reporting" },
                 showNoMatch: { type: "boolean", default: true },
                 showMultiMatch: { type: "boolean", default: true },
                 showValid: { type: "boolean", default: false },
+                cursor: { type: "string", description: "analyze: nextCursor from the previous page of issues" },
                 limit: { type: "number", default: 20 },
                 finders: {
                     type: "array",
@@ -120,11 +134,11 @@ export const TOOLS: MCPTool[] = [
     },
     {
         name: "react",
-        description: "React/DOM inspection. query: find elements. fiber: component tree (up/down). props/state/hooks: component data. contexts: providers. find: by name/props. styles: computed CSS. tree: DOM subtree. path: selector. source: bridge an on-screen element to its webpack module(s), export name, hint, and patchedBy. This is the pixel-to-source link for patch authoring.",
+        description: "React/DOM inspection. query: find elements. fiber: component tree (up/down). props/state/hooks: component data. contexts: providers. find: by name/props. styles: computed CSS. tree: DOM subtree. path: selector. source: bridge an on-screen element to its webpack module(s), export name, hint, and patchedBy. This is the pixel-to-source link for patch authoring. snapshot: capture the named component tree (with props) under a selector, componentName, or the app root, stored under an id that survives a renderer reload. diff: compare snapshot id against compareTo or the live tree (added/removed components, changed props).",
         inputSchema: {
             type: "object",
             properties: {
-                action: { type: "string", enum: ["query", "styles", "tree", "path", "fiber", "props", "hooks", "contexts", "find", "state", "source"] },
+                action: { type: "string", enum: ["query", "styles", "tree", "path", "fiber", "props", "hooks", "contexts", "find", "state", "source", "snapshot", "diff"] },
                 selector: { type: "string", description: "CSS selector" },
                 componentName: { type: "string", description: "Component/prop name (partial)" },
                 properties: { type: "array", items: { type: "string" }, description: "CSS properties for styles" },
@@ -133,8 +147,10 @@ export const TOOLS: MCPTool[] = [
                 limit: { type: "number", default: 20 },
                 depth: { type: "number", default: 10 },
                 direction: { type: "string", enum: ["up", "down"], default: "up" },
-                includeProps: { type: "boolean", default: false },
+                includeProps: { type: "boolean", default: false, description: "fiber: prop keys. snapshot: record props (default true)" },
                 breadth: { type: "number", default: 10 },
+                id: { type: "number", description: "Snapshot id for diff" },
+                compareTo: { type: "number", description: "diff: second snapshot id (omit to compare against the live tree)" },
             },
         },
     },
@@ -179,6 +195,7 @@ export const TOOLS: MCPTool[] = [
                 patterns: { type: "array", items: { type: "string" }, description: "AND search (2-10 strings)" },
                 regex: { type: "boolean", default: false },
                 limit: { type: "number", default: 10 },
+                cursor: { type: "string", description: "nextCursor from the previous page" },
             },
         },
     },
@@ -209,15 +226,22 @@ export const TOOLS: MCPTool[] = [
     },
     {
         name: "testPatch",
-        description: "Test a patch before writing it. Validates find uniqueness, match regex, captures, replacement preview, and post-replace syntax. Shows nearby anchors. Returns PASS/FIND_NOT_UNIQUE/MATCH_FAILED.",
+        description: "Test a patch before writing it. Validates find uniqueness, match regex, captures, replacement preview, and post-replace syntax. Shows nearby anchors. Returns PASS/FIND_NOT_UNIQUE/MATCH_FAILED. emitCode returns the exact patches: [...] literal to paste. action synthesize builds the patch for you from a module id plus the edited code (excerpt) or insertAfter + snippet, then tests it.",
         inputSchema: {
             type: "object",
             properties: {
+                action: { type: "string", enum: ["synthesize"], description: "Omit to test find/match/replace" },
                 find: { type: "string", description: "Find string (supports #{intl::KEY})" },
                 match: { type: "string", description: "/regex/flags (\\i for minified)" },
                 replace: { type: "string", description: "Replacement preview" },
+                id: { type: "string", description: "Module ID (for synthesize)" },
+                excerpt: { type: "string", description: "A copy of module code with your change applied (for synthesize)" },
+                insertAfter: { type: "string", description: "Unique module text to insert after (for synthesize, with snippet)" },
+                snippet: { type: "string", description: "Code to insert (for synthesize, with insertAfter)" },
+                emitCode: { type: "boolean", description: "On PASS, also return the ready-to-paste patches: [...] TypeScript literal, round-trip checked" },
+                group: { type: "boolean", description: "emitCode: add group: true" },
+                noWarn: { type: "boolean", description: "emitCode: add noWarn: true" },
             },
-            required: ["find", "match"],
         },
     },
     {
@@ -271,6 +295,7 @@ export const TOOLS: MCPTool[] = [
                 level: { type: "string", enum: ["error", "warn"] },
                 limit: { type: "number", default: 30 },
                 sinceMs: { type: "number", description: "Only entries newer than this many ms" },
+                cursor: { type: "string", description: "recent: nextCursor from the previous page (older entries)" },
             },
         },
     },
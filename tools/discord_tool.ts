@@ -15,7 +15,21 @@ import * as u from "./utils";
 
 const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
 
-function readBuildInfo() {
+const BUILD_NUMBER_ANCHOR = "Trying to open a changelog for an invalid build number";
+const BUILD_NUMBER_RE = /\.concat\("(\d+)"\)/;
+let cachedBuildNumber: number | null = null;
+
+export function readBuildNumber(): number | null {
+    if (cachedBuildNumber != null) return cachedBuildNumber;
+    const env = (window as unknown as { GLOBAL_ENV?: Record<string, unknown> }).GLOBAL_ENV ?? {};
+    const fromEnv = Number(env.BUILD_NUMBER);
+    if (Number.isInteger(fromEnv) && fromEnv > 0) return cachedBuildNumber = fromEnv;
+    const [id] = u.findModuleIds(src => src.includes(BUILD_NUMBER_ANCHOR), 1, [BUILD_NUMBER_ANCHOR]);
+    const match = id ? BUILD_NUMBER_RE.exec(u.getModuleSource(id)) : null;
+    return cachedBuildNumber = match ? Number(match[1]) : null;
+}
+
+export function readBuildInfo() {
     const env = (window as unknown as { GLOBAL_ENV?: Record<string, unknown> }).GLOBAL_ENV ?? {};
     const native = (window as unknown as { DiscordNative?: { app?: { getVersion?: () => string; getReleaseChannel?: () => string } } }).DiscordNative;
     const sentryTags = env.SENTRY_TAGS as { buildId?: string; buildType?: string } | undefined;
@@ -23,6 +37,7 @@ function readBuildInfo() {
         releaseChannel: env.RELEASE_CHANNEL ?? u.safeCall(() => native?.app?.getReleaseChannel?.() ?? null, null),
         buildId: sentryTags?.buildId ?? null,
         buildType: sentryTags?.buildType ?? null,
+        buildNumber: readBuildNumber(),
         versionHash: env.VERSION_HASH ?? null,
         apiVersion: env.API_VERSION ?? null,
         apiEndpoint: env.API_ENDPOINT ?? null,
@@ -60,11 +75,13 @@ export async function handleDiscord(args: DiscordToolArgs): Promise<ToolResult>
         const build = readBuildInfo();
 
         let serverRunning = false;
-        let port = 0;
+        let port: number | null = null;
+        let socketPath: string | null = null;
         try {
             const status = await Native.getServerStatus();
             serverRunning = status.running;
-            port = status.port;
+            port = status.endpoint?.port ?? null;
+            socketPath = status.endpoint?.socketPath ?? null;
         } catch {}
 
         const pluginNames = Object.keys(plugins);
@@ -72,7 +89,7 @@ export async function handleDiscord(args: DiscordToolArgs): Promise<ToolResult>
 
         return {
             ready,
-            runtime: { serverRunning, port },
+            runtime: { serverRunning, port, socketPath },
             counts: {
                 modules: u.getModuleIds().length,
                 loadedModules: Object.keys(wreq.c).length,
@@ -7,6 +7,7 @@
 import { FluxToolArgs, ToolResult } from "../types";
 import { FluxDispatcher, getFluxDispatcherInternal, resolveStore } from "../webpack";
 import { LIMITS } from "./constants";
+import { paginate } from "./pagination";
 import * as u from "./utils";
 
 export async function handleFlux(args: FluxToolArgs): Promise<ToolResult> {
@@ -64,7 +65,9 @@ export async function handleFlux(args: FluxToolArgs): Promise<ToolResult> {
             events = events.filter(e => regex.test(e));
         }
 
-        return { total: eventSet.size, filtered: events.length, events: events.slice(0, limit), note: events.length > limit ? "Use filter or limit to narrow" : undefined };
+        const paged = await paginate("flux", args, limit, () => events);
+        if ("error" in paged) return paged;
+        return { total: eventSet.size, filtered: paged.total, offset: paged.offset, events: paged.page, nextCursor: paged.nextCursor };
     }
 
     if (action === "graph") {
@@ -92,7 +95,7 @@ export async function handleFlux(args: FluxToolArgs): Promise<ToolResult> {
 
     if (action === "producers") {
         if (!type) return u.missingArg("type");
-        const ids = u.findModuleIds(src => src.includes(`type:"${type}"`) || src.includes(`type: "${type}"`), limit);
+        const ids = u.findModuleIds(src => src.includes(`type:"${type}"`) || src.includes(`type: "${type}"`), limit, [`"${type}"`]);
         return { type, count: ids.length, producers: ids.map(id => ({ moduleId: id, hint: u.getModuleHint(id) })) };
     }
 
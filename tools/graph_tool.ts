@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { bfsPath, neighborhood } from "../finds/depGraph";
 import { detectRequireParam } from "../finds/genFinds";
 import { extractSymbolUsage, findRequireBindings } from "../finds/symbolUsage";
 import { GraphToolArgs, ToolResult } from "../types";
@@ -12,24 +13,6 @@ import * as u from "./utils";
 
 const USEDBY_SCAN_CAP = 300;
 
-function bfsPath(graph: Map<string, string[]>, from: string, to: string, maxDepth: number): string[] | null {
-    if (from === to) return [from];
-    const queue: string[][] = [[from]];
-    const seen = new Set<string>([from]);
-    for (let i = 0; i < queue.length; i++) {
-        const path = queue[i];
-        if (path.length > maxDepth) break;
-        for (const next of graph.get(path[path.length - 1]) ?? []) {
-            if (seen.has(next)) continue;
-            const extended = [...path, next];
-            if (next === to) return extended;
-            seen.add(next);
-            queue.push(extended);
-        }
-    }
-    return null;
-}
-
 export async function handleGraph(args: GraphToolArgs): Promise<ToolResult> {
     const { action, id, to } = args;
     const limit = u.clamp(args.limit, DEFAULT_TOOL_LIMIT, 1, 200);
@@ -58,17 +41,8 @@ export async function handleGraph(args: GraphToolArgs): Promise<ToolResult> {
 
     if (action === "neighborhood") {
         const budget = args.limit != null ? limit : 60;
-        const nodes = new Set<string>([id]);
-        const queue: string[] = [id];
-        while (queue.length && nodes.size < budget) {
-            const cur = queue.shift()!;
-            for (const n of [...(forward.get(cur) ?? []), ...(reverse.get(cur) ?? [])]) {
-                if (!nodes.has(n) && nodes.size < budget) { nodes.add(n); queue.push(n); }
-            }
-        }
-        const edges: Array<[string, string]> = [];
-        for (const n of nodes) for (const d of forward.get(n) ?? []) if (nodes.has(d)) edges.push([n, d]);
-        return { id, nodeCount: nodes.size, nodes: [...nodes].map(node), edges, truncated: queue.length > 0 ? true : undefined };
+        const { nodes, edges, truncated } = neighborhood(forward, reverse, id, budget);
+        return { id, nodeCount: nodes.length, nodes: nodes.map(node), edges, truncated: truncated ? true : undefined };
     }
 
     if (action === "usedBy") {
@@ -0,0 +1,136 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { canonicalizeReplace } from "@utils/patches";
+
+import { PatchToolArgs, ToolResult } from "../types";
+import { webpackPatches, wreq } from "../webpack";
+import * as u from "./utils";
+
+export const HOT_PATCH_OWNER = "mcp hotApply";
+
+type Factory = ((...args: unknown[]) => unknown) & { toString(): string };
+
+interface HotPatch {
+    previous: Factory;
+    find: string;
+    match: string;
+    replace: string;
+    appliedAt: number;
+}
+
+const hotPatches = new Map<string, HotPatch>();
+const factories = () => wreq.m as unknown as Record<string, Factory>;
+
+const INSTANTIATED = "is already instantiated. Every module that required it holds its exports, so swapping the factory cannot reach them. Use reloadDiscord";
+
+function restore(id: string, previous: Factory): boolean {
+    Reflect.deleteProperty(factories(), id);
+    const ok = Reflect.defineProperty(factories(), id, { value: previous, configurable: true, enumerable: true, writable: true });
+    u.reindexModules([id]);
+    return ok;
+}
+
+function install(id: string, base: Factory, patch: object): void {
+    const saved = webpackPatches.splice(0, webpackPatches.length, patch as typeof webpackPatches[number]);
+    try {
+        Reflect.deleteProperty(factories(), id);
+        factories()[id] = base;
+    } finally {
+        webpackPatches.splice(0, webpackPatches.length, ...saved);
+    }
+}
+
+export function handleHotApply(args: PatchToolArgs): ToolResult {
+    const { find, match, replace } = args;
+    if (!find) return u.missingArg("find");
+    if (!match) return u.missingArg("match");
+    if (replace == null) return u.missingArg("replace");
+
+    const matcher = u.canonFindMatcher(find);
+    let { id } = args;
+    if (!id) {
+        const ids = u.findModuleIds(matcher.test, 2, matcher.needles);
+        if (ids.length !== 1) return { error: true, message: ids.length ? "find matches more than one module. Pass id or a unique find" : "find matches no module" };
+        [id] = ids;
+    }
+    if (!factories()[id]) return u.moduleNotFound(id);
+    if (u.moduleAt(id)) return { error: true, message: `Module ${id} ${INSTANTIATED}`, id };
+
+    const matchRe = u.safeCall<RegExp | null>(() => u.buildPatchRegex(match), null);
+    if (!matchRe) return { error: true, message: `Invalid match regex: ${match}` };
+
+    const prior = hotPatches.get(id);
+    if (prior && !restore(id, prior.previous)) return { error: true, message: `Could not restore module ${id} before re-applying` };
+
+    const previous = factories()[id];
+    const patchedBy = u.getModulePatchedBy(id);
+    let base: Factory;
+    try {
+        base = (0, eval)(u.extractModule(id, true));
+    } catch (e) {
+        return { error: true, message: `Could not rebuild the factory of module ${id}: ${u.errMsg(e)}` };
+    }
+    if (!matcher.test(String(base))) return { error: true, message: `find is not in module ${id} after the patches already applied to it`, id };
+
+    const patch = { plugin: HOT_PATCH_OWNER, find: matcher.canonical, replacement: { match: matchRe, replace: canonicalizeReplace(replace, args.pluginName ?? HOT_PATCH_OWNER) } };
+    try {
+        install(id, base, patch);
+    } catch (e) {
+        restore(id, previous);
+        hotPatches.delete(id);
+        return { error: true, message: `Installing the patched factory failed: ${u.errMsg(e)}`, id };
+    }
+
+    if (!u.getModulePatchedBy(id).includes(HOT_PATCH_OWNER)) {
+        restore(id, previous);
+        hotPatches.delete(id);
+        return { error: true, message: "The replacement did not change the module or the result failed to compile (see the console). The module was left as it was", id };
+    }
+
+    u.addModulePatchedBy(id, patchedBy);
+    // As with every Vencord-patched factory, String(wreq.m[id]) stays the unpatched source; the hot-patched code is read via getFactoryPatchedSource (u.extractModule(id, true))
+    Object.defineProperty(factories()[id], "toString", { value: previous.toString, configurable: true, writable: true });
+    u.reindexModules([id]);
+    hotPatches.set(id, { previous, find, match, replace, appliedAt: Date.now() });
+
+    return {
+        id,
+        applied: true,
+        replacedHotPatch: !!prior,
+        patchedBy: u.getModulePatchedBy(id),
+        note: "Open the UI that loads this module to run the patched factory. module.extract shows the hot-patched source, module.extract with patched false the original. hotApply again to iterate, hotRevert to undo. Both only work until the module is first required",
+    };
+}
+
+export function handleHotRevert(args: PatchToolArgs): ToolResult {
+    const ids = args.id ? [args.id] : [...hotPatches.keys()];
+    if (!ids.length) return { error: true, message: "No hot-applied patches" };
+
+    const reverted: string[] = [];
+    const refused: Array<{ id: string; reason: string }> = [];
+    for (const id of ids) {
+        const hot = hotPatches.get(id);
+        if (!hot) refused.push({ id, reason: "no hot-applied patch on this module" });
+        else if (u.moduleAt(id)) refused.push({ id, reason: `module ${INSTANTIATED}` });
+        else if (!restore(id, hot.previous)) refused.push({ id, reason: "restoring the previous factory failed" });
+        else {
+            hotPatches.delete(id);
+            reverted.push(id);
+        }
+    }
+
+    return {
+        reverted,
+        ...(refused.length && { refused }),
+        remaining: [...hotPatches].map(([id, h]) => ({ id, find: h.find, match: h.match, replace: h.replace, appliedAt: new Date(h.appliedAt).toISOString() })),
+    };
+}
+
+export function cleanupAllHotPatches(): void {
+    for (const [id, hot] of hotPatches) if (!u.moduleAt(id)) restore(id, hot.previous);
+    hotPatches.clear();
+}
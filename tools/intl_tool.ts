@@ -4,8 +4,9 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { IntlToolArgs, ToolResult } from "../types";
+import { IntlToolArgs, ToolContext, ToolResult } from "../types";
 import { createIntlHashBracketRegex, createIntlHashDotRegex, DEFAULT_TOOL_LIMIT, INTL_HASH_FRAGMENT, INTL_HASH_FULL_RE, INTL_TARGETS_SCAN_CAP } from "./constants";
+import { paginate } from "./pagination";
 import * as u from "./utils";
 
 function getMessage(hash: string): string | null {
@@ -16,7 +17,7 @@ function getMessage(hash: string): string | null {
 
 interface IntlEntry { hash: string; message: string; key?: string; find?: string }
 
-export async function handleIntl(args: IntlToolArgs): Promise<ToolResult> {
+export async function handleIntl(args: IntlToolArgs, ctx: ToolContext = u.NO_TOOL_CONTEXT): Promise<ToolResult> {
     const { action, key, hash, query, moduleId } = args;
     const limit = args.limit ?? DEFAULT_TOOL_LIMIT;
 
@@ -51,27 +52,30 @@ export async function handleIntl(args: IntlToolArgs): Promise<ToolResult> {
         const locale = u.getLocaleMessages();
         if (!locale) return { query, count: 0, matches: [] };
 
-        const queryLower = query.toLowerCase();
-        const terms = queryLower.split(/\s+/).filter(w => w.length >= 2);
-        const hashMap = u.buildIntlHashToKeyMap();
-        const exact: IntlEntry[] = [];
-        const partial: IntlEntry[] = [];
-
-        for (const [h, arr] of Object.entries(locale)) {
-            const text = u.extractIntlText(arr);
-            if (!text) continue;
-            const lower = text.toLowerCase();
-            if (!(terms.length > 1 ? terms.every(t => lower.includes(t)) : lower.includes(queryLower))) continue;
-
-            const known = hashMap.get(h);
-            const entry: IntlEntry = { hash: h, message: text.slice(0, 200) };
-            if (known) { entry.key = known; entry.find = u.intlFind(h, known); }
-            (lower === queryLower ? exact : partial).push(entry);
-        }
-
-        const combined = [...exact, ...partial];
-        const matches = combined.slice(0, limit);
-        return { query, count: combined.length, returned: matches.length, truncated: combined.length > matches.length ? true : undefined, matches };
+        const paged = await paginate("intl", args, limit, () => {
+            const queryLower = query.toLowerCase();
+            const terms = queryLower.split(/\s+/).filter(w => w.length >= 2);
+            const hashMap = u.buildIntlHashToKeyMap();
+            const exact: IntlEntry[] = [];
+            const partial: IntlEntry[] = [];
+
+            for (const [h, arr] of Object.entries(locale)) {
+                const text = u.extractIntlText(arr);
+                if (!text) continue;
+                const lower = text.toLowerCase();
+                if (!(terms.length > 1 ? terms.every(t => lower.includes(t)) : lower.includes(queryLower))) continue;
+
+                const known = hashMap.get(h);
+                const entry: IntlEntry = { hash: h, message: text.slice(0, 200) };
+                if (known) { entry.key = known; entry.find = u.intlFind(h, known); }
+                (lower === queryLower ? exact : partial).push(entry);
+            }
+
+            return [...exact, ...partial];
+        });
+        if ("error" in paged) return paged;
+        const matches = paged.page;
+        return { query, count: paged.total, returned: matches.length, offset: paged.offset, truncated: paged.nextCursor ? true : undefined, nextCursor: paged.nextCursor, matches };
     }
 
     if (action === "scan") {
@@ -99,13 +103,13 @@ export async function handleIntl(args: IntlToolArgs): Promise<ToolResult> {
         if (!h) return u.missingArg("key or hash");
         if (!INTL_HASH_FULL_RE.test(h)) return { error: true, message: `Invalid hash format: expected 6 base64 chars, got "${h}" (${h.length} chars)` };
         const message = getMessage(h);
-        const all = u.findModuleIds(src => src.includes(`.t.${h}`) || src.includes(`.t["${h}"]`), INTL_TARGETS_SCAN_CAP);
+        const all = u.findModuleIds(src => src.includes(`.t.${h}`) || src.includes(`.t["${h}"]`), INTL_TARGETS_SCAN_CAP, [h]);
         const warning = cleanKey && (!message || message === h) ? "Key not found in Discord intl definitions, or its module is not loaded this session" : undefined;
         return { key: cleanKey || u.getIntlKeyFromHash(h), hash: h, message, count: all.length, returned: Math.min(all.length, limit), truncated: all.length > limit ? true : undefined, modules: all.slice(0, limit), warning };
     }
 
     if (action === "recover") {
-        const result = u.recoverIntlKeys(limit);
+        const result = await u.recoverIntlKeys(limit, ctx);
         return {
             ...result,
             persistedTotal: u.learnedKeyCount(),
@@ -8,8 +8,9 @@ import { loadLazyChunks } from "@debug/loadLazyChunks";
 import { canonicalizeMatch } from "@utils/patches";
 
 import { fingerprintModule } from "../finds/moduleFingerprint";
-import { AnchorCandidate, ModuleMatch, ModuleToolArgs, ModuleWatch, SuggestCandidate, ToolResult, WebpackExport } from "../types";
+import { AnchorCandidate, ExplainResult, ModuleMatch, ModuleToolArgs, ModuleWatch, SuggestCandidate, ToolContext, ToolResult, WebpackExport } from "../types";
 import { factoryListeners, filters, Flux, getCommonModules, wreq } from "../webpack";
+import { handleBuildDelta } from "./build_delta_tool";
 import {
     ANCHOR_TYPE_ORDER,
     CONTEXT,
@@ -27,6 +28,8 @@ import {
     STRING_LITERAL_RE,
 } from "./constants";
 import { handleGenFinds } from "./gen_finds_tool";
+import { paginate } from "./pagination";
+import { handleExportSnapshot } from "./snapshot_tool";
 import * as u from "./utils";
 
 function findModuleMatches(filter: (m: unknown) => boolean, max: number): ModuleMatch[] {
@@ -53,7 +56,7 @@ function findModuleMatches(filter: (m: unknown) => boolean, max: number): Module
 
 const moduleMatchBase = (m: ModuleMatch, i: number) => ({ index: i, moduleId: m.id, hint: u.getModuleHint(m.id), exportKey: m.key, type: typeof m.exports });
 
-export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
+export async function handleModule(args: ModuleToolArgs, ctx: ToolContext = u.NO_TOOL_CONTEXT): Promise<ToolResult> {
     const { action, id, props, code, displayName, className, exportName, exportValue, pattern } = args;
     if (args.limit != null && args.limit < 1) return { error: true, message: "limit must be >= 1 (omit for default)" };
     if (args.maxLength != null && args.maxLength < 1) return { error: true, message: "maxLength must be >= 1 (omit for default)" };
@@ -82,6 +85,7 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
         const modulesBefore = Object.keys(wreq.m).length;
         const loadedBefore = Object.keys(wreq.c).length;
         u.moduleWatchState.isLoadingLazy = true;
+        const ticker = setInterval(() => ctx.progress(Object.keys(wreq.m).length - modulesBefore, undefined, "factories loaded").catch(() => clearInterval(ticker)), LIMITS.MODULE.LAZY_PROGRESS_INTERVAL_MS);
 
         try {
             await loadLazyChunks();
@@ -110,6 +114,7 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
                 message: newModules > 0 ? `Loaded ${newModules} factories, ${newLoaded} instances` : "Lazy chunks already loaded",
             };
         } finally {
+            clearInterval(ticker);
             u.moduleWatchState.isLoadingLazy = false;
         }
     }
@@ -291,7 +296,7 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
                 stores: stores.length ? stores : undefined,
                 dispatches: dispatches.length ? dispatches : undefined,
             },
-        };
+        } satisfies ExplainResult;
     }
 
     if (action === "structure") {
@@ -363,9 +368,10 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
 
     if (id && (action === "extract" || !action)) {
         if (!wreq.m[id]) return u.moduleNotFound(id);
-        const source = u.extractModule(id, args.patched !== false);
+        const paged = await paginate("module", args, maxLength, () => u.extractModule(id, args.patched !== false));
+        if ("error" in paged) return paged;
         const patchedBy = u.getModulePatchedBy(id);
-        return { id, patched: patchedBy.length > 0, patchedBy, size: source.length, truncated: source.length > maxLength, source: source.slice(0, maxLength) };
+        return { id, patched: patchedBy.length > 0, patchedBy, size: paged.total, offset: paged.offset, truncated: paged.nextCursor != null, source: paged.page, nextCursor: paged.nextCursor };
     }
 
     if (action === "exports") {
@@ -727,6 +733,10 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
 
     if (action === "genFinds") return handleGenFinds(args);
 
+    if (action === "buildDelta") return handleBuildDelta(args);
+
+    if (action === "exportSnapshot") return handleExportSnapshot(ctx);
+
     if (action === "fingerprint") {
         if (!id) return u.missingArg("id");
         const source = u.getModuleSource(id);
@@ -861,10 +871,14 @@ export async function handleModule(args: ModuleToolArgs): Promise<ToolResult> {
     if (pattern || action === "find") {
         if (!pattern) return u.missingArg("pattern");
         const matcher = u.makePatternMatcher(pattern);
-        const results = u.findModuleIds(matcher.test, limit);
+        const paged = await paginate("module", args, limit, () => u.findModuleIds(matcher.test, Infinity));
+        if ("error" in paged) return paged;
+        const results = paged.page;
 
         return {
             count: results.length,
+            total: paged.total,
+            nextCursor: paged.nextCursor,
             ids: results,
             preview: results.map(moduleId => {
                 const source = u.getModuleSource(moduleId);
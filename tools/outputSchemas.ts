@@ -0,0 +1,377 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as s from "../finds/resultShape";
+import { OutputSchema, OutputShapeMap } from "../types";
+
+const hint = s.nullable(s.str);
+const names = s.arrayOf(s.str);
+const maybeStr = s.nullable(s.str);
+const maybeInt = s.nullable(s.int);
+const stopped = s.either(s.int, s.bool);
+
+const MODULE_MATCH = s.obj({ id: s.str }, { hint, snippet: s.str });
+
+const GEN_FIND = s.obj(
+    {
+        find: s.str,
+        type: s.str,
+        tier: s.str,
+        score: s.num,
+        durability: s.num,
+        unique: s.bool,
+        moduleCount: s.int,
+        regex: s.bool,
+        confidence: s.num,
+        band: s.oneOf("high", "medium", "low"),
+        confidenceReasons: names,
+    },
+    {
+        reason: s.str,
+        margin: s.obj({
+            strength: s.oneOf("strong", "moderate", "whole-only"),
+            minFragmentMatches: maybeInt,
+            distinctiveFragment: maybeStr,
+            detail: s.str,
+        }),
+    },
+);
+
+const REPLACEMENT_CHECK = s.obj(
+    { replacementIndex: s.int, matched: s.bool },
+    { syntaxValid: s.bool, syntaxError: s.str, produced: s.str, replaceCalls: s.int, replaceError: s.str },
+);
+
+const APPLIED_PATCH = s.obj(
+    {
+        index: s.int,
+        find: s.str,
+        status: s.oneOf("FIND_DEAD", "FIND_AMBIGUOUS", "APPLIED", "CONSUMED_NO_CHANGE", "NOT_APPLIED"),
+        modules: s.arrayOf(s.obj({ moduleId: s.str, appliedByThisPlugin: s.bool, sourceChanged: s.bool }, { patchedBy: names })),
+    },
+    { functionReplacements: s.arrayOf(REPLACEMENT_CHECK) },
+);
+
+const CAPTURES = { captureCount: s.int, captures: s.list, truncated: s.bool, ended: s.bool };
+
+const REACT_MISS = { hasFiber: s.bool, message: s.str };
+
+const TEST_PATCH = {
+    required: {
+        find: s.str,
+        match: s.str,
+        replace: maybeStr,
+        findUnique: s.bool,
+        findModuleCount: s.int,
+        findModules: s.list,
+        matchWorks: s.bool,
+        matchedText: maybeStr,
+        matchContext: maybeStr,
+        captureGroups: s.int,
+        replacementPreview: maybeStr,
+        score: s.num,
+        verdict: s.str,
+    },
+    optional: {
+        findCanonicalized: s.str,
+        matchCanonicalized: s.str,
+        moduleId: s.str,
+        warnings: s.list,
+        diagnostic: s.record,
+        findContext: s.str,
+        nearbyAnchors: s.list,
+        suggestedFinds: names,
+        multiMatchResults: s.list,
+        patchCode: s.record,
+    },
+};
+
+export const OUTPUT_SHAPES = {
+    module: {
+        stats: s.obj({ totalModules: s.int, loadedModules: s.int, patchedModules: s.int, stores: s.int, loadedPercentage: s.num }),
+        loadLazy: s.obj({ success: s.bool, modulesBefore: s.int, modulesAfter: s.int, newModules: s.int, loadedBefore: s.int, loadedAfter: s.int, newLoaded: s.int, message: s.str }),
+        watch: s.obj({ id: s.int, filter: s.str, duration: s.int, maxCaptures: s.int, baselineCount: s.int }),
+        watchGet: s.obj({}, { activeWatches: s.int, watches: s.list, lastLazyLoad: s.nullable(s.record), id: s.int, newModuleCount: s.int, remaining: s.int, newModules: s.list, truncated: s.bool }),
+        watchStop: s.obj({ stopped }, { id: s.int, newModuleCount: s.int, newModules: s.list }),
+        functionAt: s.obj({ found: s.bool, id: s.str, patternIndex: s.int, functionStart: s.int, functionEnd: s.int, functionLength: s.int, truncated: s.bool, source: s.str }),
+        explain: s.obj(
+            {
+                id: s.str,
+                role: s.oneOf("store", "component", "api", "barrel", "module"),
+                hint,
+                size: s.int,
+                publicExports: s.record,
+                imports: s.arrayOf(s.obj({ id: s.str, hint })),
+                importedByCount: s.int,
+                touches: s.obj({}, { intlKeys: names, stores: names, dispatches: names }),
+            },
+            { patchedBy: names },
+        ),
+        structure: s.obj({ id: s.str, hint, size: s.int, exportKeys: names, functions: s.list }, { patchedBy: names, classes: s.list, keyStrings: names, variables: names }),
+        extract: s.obj({ id: s.str, patched: s.bool, patchedBy: names, size: s.int, offset: s.int, truncated: s.bool, source: s.str }, { nextCursor: s.str }),
+        exports: s.obj({ found: s.bool, id: s.str, hint, hasDefault: s.bool, exportCount: s.int, exports: s.record }, { patchedBy: names }),
+        context: s.obj(
+            { found: s.bool },
+            { pattern: s.str, message: s.str, moduleId: s.str, hint, matchIndex: s.int, matchLength: s.int, context: s.str, matchedText: s.str, intlAnnotations: s.list },
+        ),
+        diff: s.obj(
+            { id: s.str },
+            { patched: s.bool, found: s.bool, hasPatches: s.bool, patchedBy: names, originalSize: s.int, patchedSize: s.int, changeCount: s.int, truncated: s.bool, note: s.str, changes: s.list },
+        ),
+        find: s.obj({}, {
+            count: s.int,
+            total: s.int,
+            nextCursor: s.str,
+            ids: names,
+            preview: s.arrayOf(MODULE_MATCH),
+            found: s.bool,
+            message: s.str,
+            filterType: s.str,
+            modules: s.list,
+            moduleId: s.str,
+            hint,
+            exportKey: s.str,
+            keys: names,
+            sample: s.record,
+            type: s.str,
+            source: s.str,
+            matches: s.list,
+            reverse: s.bool,
+            hash: s.str,
+            matchedClass: s.record,
+            classCount: s.int,
+            allClasses: s.record,
+            exportName: s.str,
+            inWebpackCommon: s.bool,
+            tip: s.str,
+            value: s.str,
+            valueType: s.str,
+        }),
+        css: s.obj({}, { totalIndexed: s.int, count: s.int, matches: s.list, totalModules: s.int, totalClasses: s.int, topModules: s.list }),
+        annotate: s.obj({ id: s.str, usedPatchedSource: s.bool, patched: s.bool, patchedBy: names, annotationCount: s.int, size: s.int, truncated: s.bool, source: s.str }),
+        genFinds: s.obj({
+            id: s.str,
+            sourceSize: s.int,
+            candidateCount: s.int,
+            uniqueCount: s.int,
+            uniquenessScope: s.oneOf("loaded-factories"),
+            note: s.str,
+            finds: s.arrayOf(GEN_FIND),
+        }),
+        buildDelta: s.obj(
+            { from: s.str, to: s.str },
+            { prevId: maybeStr, currId: maybeStr, score: s.num, sharedStrong: s.int, renumbered: s.bool, status: s.str, note: s.str, counts: s.record, matched: s.list, added: names, removed: names, storedBuilds: names },
+        ),
+        exportSnapshot: s.obj({ build: s.str, path: s.str, bytes: s.int, modules: s.int, intlKeys: s.int, intlMessages: s.int, storedBuilds: names, note: s.str }),
+        fingerprint: s.obj({ id: s.str, intlHashes: names, storeNames: names, errorStrings: names, cssHashes: names, landmarkCount: s.int, note: s.str }),
+        suggest: s.obj({ id: s.str, sourceSize: s.int, candidateCount: s.int, suggestions: s.list }),
+    },
+    store: {
+        list: s.obj({ count: s.int, offset: s.int, stores: names }, { nextCursor: s.str }),
+        find: s.obj({ found: s.bool, displayName: s.str, methods: names, getters: names, properties: names }),
+        state: s.obj({ found: s.bool }, { property: s.str, method: s.str, isGetter: s.bool, value: s.anyValue, valueType: s.str, error: s.str }),
+        call: s.obj({ found: s.bool }, { property: s.str, method: s.str, isGetter: s.bool, value: s.anyValue, valueType: s.str, error: s.str }),
+        snapshot: s.obj({ store: s.str, snapshotAt: s.int, getterCount: s.int, values: s.record }, { truncated: s.bool }),
+        links: s.obj({ store: s.str, syncsWith: names, listenerCount: s.int, reactListenerCount: s.int, conditionalListenerCount: s.int }, { dispatchToken: s.str }),
+    },
+    intl: {
+        hash: s.obj({ key: maybeStr, hash: s.str, find: maybeStr, message: maybeStr, exists: s.bool }, { warning: s.str }),
+        reverse: s.obj({ key: maybeStr, hash: s.str, find: maybeStr, message: maybeStr, exists: s.bool }, { warning: s.str }),
+        search: s.obj({ query: s.str, count: s.int, matches: s.list }, { returned: s.int, offset: s.int, truncated: s.bool, nextCursor: s.str }),
+        scan: s.obj({ moduleId: s.str, count: s.int, returned: s.int, hashes: s.list }, { truncated: s.bool }),
+        targets: s.obj({ key: maybeStr, hash: s.str, count: s.int, returned: s.int, modules: s.list }, { message: maybeStr, truncated: s.bool, warning: s.str }),
+        recover: s.obj({ attempted: s.int, recovered: s.int, entries: s.list, persistedTotal: s.int, note: s.str }),
+        clearCache: s.obj({ message: s.str }),
+    },
+    flux: {
+        events: s.obj({ total: s.int, filtered: s.int, offset: s.int, events: names }, { nextCursor: s.str }),
+        dispatch: s.obj({ dispatched: s.bool, type: s.str }),
+        listeners: s.obj({ found: s.bool, event: s.str, storeHandlerCount: s.int, storeHandlers: s.list, subscriptionCount: s.int }),
+        graph: s.obj({ store: s.str, token: s.str, handles: names, dependsOn: names, dependentCount: s.int, dependents: names }, { band: s.anyValue }),
+        producers: s.obj({ type: s.str, count: s.int, producers: s.arrayOf(s.obj({ moduleId: s.str }, { hint })) }),
+        chain: s.obj({ type: s.str, handlerCount: s.int, chain: s.list }, { truncated: s.bool }),
+    },
+    patch: {
+        unique: s.obj({ str: s.str, count: s.int, unique: s.bool, moduleIds: names, valid: s.str }),
+        analyze: s.obj({ buildNumber: maybeInt, stats: s.record, issueCount: s.int, offset: s.int, issues: s.list }, { note: s.str, nextCursor: s.str }),
+        plugin: s.obj(
+            { name: s.str, enabled: s.bool, patchCount: s.int },
+            { found: s.bool, buildNumber: maybeInt, summary: s.record, health: s.oneOf("HEALTHY", "DEGRADED", "BROKEN"), patches: s.list },
+        ),
+        lint: s.obj({ find: s.record, overallScore: s.num, verdict: s.str }, { match: s.record, allWarnings: s.list, allErrors: s.list }),
+        finds: s.obj({ total: s.int, found: s.int, broken: s.int, health: s.oneOf("HEALTHY", "DEGRADED", "BROKEN"), results: s.list }, { allResults: s.str }),
+        conflicts: s.obj({ totalConflictingModules: s.int, conflicts: s.list }),
+        overlaps: s.obj(
+            { moduleId: s.str, patchCount: s.int, conflicts: s.int },
+            { moduleSize: s.int, skippedFunctionReplaces: s.int, patches: s.list, message: s.str, warning: s.str, note: s.str },
+        ),
+        diff: s.obj({ moduleId: s.str, patched: s.bool, moduleSize: s.int }, { message: s.str, pluginCount: s.int, patchCount: s.int, patches: s.list }),
+        broken: s.obj({ totalBroken: s.int, patches: s.list }),
+        suggestFix: s.obj({ count: s.int, note: s.str, suggestions: s.list }, { patchCodeSkipped: s.str, matchWarning: s.str, hint: s.str }),
+        migrate: s.obj({ from: s.str, to: s.str, brokenCount: s.int, migrated: s.int, note: s.str, patches: s.list }, { truncated: s.bool }),
+        writeBack: s.obj({ path: s.str, index: s.int, overwrite: s.bool, verdict: maybeStr, diff: s.str, written: s.bool, note: s.str }),
+        obsolete: s.obj({ buildNumber: maybeInt, count: s.int, note: s.str, obsolete: s.list }),
+        verifyApplied: s.obj(
+            {
+                plugin: s.str,
+                enabled: s.bool,
+                patchCount: s.int,
+                applied: s.int,
+                verdict: s.oneOf("PLUGIN_DISABLED", "NO_PATCHES", "ALL_APPLIED", "APPLIED_WHERE_LOADED", "INCOMPLETE"),
+                ambientConsoleErrorsLast2Min: s.int,
+                patches: s.arrayOf(APPLIED_PATCH),
+            },
+            { findDead: s.int, note: s.str, ambientErrorsNote: s.str, recentErrors: names },
+        ),
+        history: s.obj({ runs: s.int, note: s.str }, { latest: s.record, regressions: s.list, transitions: s.list }),
+        hotApply: s.obj({ id: s.str, applied: s.bool, replacedHotPatch: s.bool, patchedBy: names, note: s.str }),
+        hotRevert: s.obj({ reverted: names, remaining: s.list }, { refused: s.list }),
+    },
+    react: {
+        query: s.obj({ selector: s.str, total: s.int, returned: s.int, elements: s.list }, { note: s.str }),
+        styles: s.obj({ found: s.bool, selector: s.str, tagName: s.str, styleCount: s.int, styles: s.record }),
+        tree: s.obj({ found: s.bool, selector: s.str, tree: s.anyValue }),
+        path: s.obj({ found: s.bool, selector: s.str, path: s.str, uniqueSelector: s.str }),
+        fiber: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, direction: s.str, nodeCount: s.int, fiber: s.list }),
+        props: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, componentName: maybeStr, props: s.anyValue }),
+        hooks: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, componentName: maybeStr, hookCount: s.int, hooks: s.nullable(s.list) }),
+        contexts: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, contextCount: s.int, contexts: s.list, note: s.str }),
+        find: s.obj({ query: s.str, found: s.int, components: s.list, fibersSearched: s.int }, { note: s.str }),
+        state: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, componentName: maybeStr, tagType: s.str, stateType: s.oneOf("class", "hooks"), stateCount: s.int, state: s.anyValue }),
+        source: s.obj({ found: s.bool, selector: s.str }, { ...REACT_MISS, stack: s.list, nearest: s.record, ranked: s.list, note: s.str }),
+        snapshot: s.obj({ id: s.int, root: maybeStr, nodeCount: s.int, note: s.str }, { truncated: s.bool }),
+        diff: s.obj({ from: s.int, to: s.either(s.int, s.str), root: maybeStr, counts: s.record, added: s.list, removed: s.list, changed: s.list }, { truncated: s.bool, note: s.str }),
+    },
+    discord: {
+        orient: s.obj({ ready: s.bool, runtime: s.record, counts: s.record, build: s.record, consoleErrors: s.int, plugins: s.record, next: s.record }),
+        context: s.obj({ user: s.nullable(s.record), channel: s.nullable(s.record), guild: s.nullable(s.record) }),
+        api: s.obj({ status: s.int, body: s.anyValue }),
+        snowflake: s.obj({ id: s.str, valid: s.bool, timestamp: s.num, date: s.str, unix: s.int }),
+        endpoints: s.obj({ found: s.bool, count: s.int, endpoints: s.record }, { note: s.str }),
+        common: s.obj({ count: s.int, modules: s.list }, { note: s.str }),
+        enum: s.obj({ count: s.int, matches: s.list }),
+        constants: s.obj({ count: s.int }, { categories: s.list, entries: s.list, message: s.str }),
+        tokens: s.obj({}, {
+            query: s.str,
+            colorCount: s.int,
+            colors: s.list,
+            semanticColors: s.int,
+            rawColors: s.int,
+            themes: names,
+            themeEnum: s.record,
+            shadows: names,
+            radii: s.anyValue,
+            spacing: s.anyValue,
+            modules: names,
+            sampleColors: s.list,
+            tip: s.str,
+        }),
+        buildInfo: s.obj({
+            releaseChannel: maybeStr,
+            buildId: maybeStr,
+            buildType: maybeStr,
+            buildNumber: maybeInt,
+            versionHash: maybeStr,
+            apiVersion: s.nullable(s.either(s.int, s.str)),
+            apiEndpoint: maybeStr,
+            hostVersion: maybeStr,
+            modVersion: s.str,
+            userAgent: s.str,
+        }),
+        experiments: s.obj({ count: s.int, scope: s.str, experiments: s.list }, { note: s.str }),
+    },
+    plugin: {
+        list: s.obj({ total: s.int, enabled: s.int, returned: s.int, truncated: s.bool, plugins: s.list }, { note: s.str }),
+        enable: s.obj({ success: s.bool, name: s.str, enabled: s.bool, message: s.str }, { requiresRestart: s.bool }),
+        disable: s.obj({ success: s.bool, name: s.str, enabled: s.bool, message: s.str }, { requiresRestart: s.bool }),
+        toggle: s.obj({ success: s.bool, name: s.str, enabled: s.bool, message: s.str }, { requiresRestart: s.bool }),
+        settings: s.obj({ name: s.str, enabled: s.bool, settingsCount: s.int, settings: s.record }),
+        setSetting: s.obj({ success: s.bool, name: s.str, setting: s.str, type: s.str, restartNeeded: s.bool }, { oldValue: s.anyValue, newValue: s.anyValue, message: s.str }),
+    },
+    search: {
+        default: s.obj({ count: s.int }, { multiPattern: s.bool, patterns: names, pattern: s.str, matches: s.list, ids: names, preview: s.list, nextCursor: s.str }),
+    },
+    graph: {
+        imports: s.obj({ id: s.str, direction: s.str, count: s.int, edges: s.list }, { truncated: s.bool }),
+        importedBy: s.obj({ id: s.str, direction: s.str, count: s.int, edges: s.list }, { truncated: s.bool }),
+        path: s.obj({ from: s.str, to: s.str }, { direction: s.str, length: s.int, hops: s.list, found: s.bool, message: s.str }),
+        neighborhood: s.obj({ id: s.str, nodeCount: s.int, nodes: s.list, edges: s.list }, { truncated: s.bool }),
+        exports: s.obj({ id: s.str, publicExports: s.record }),
+        usedBy: s.obj(
+            { id: s.str, importerCount: s.int, symbols: s.list },
+            { note: s.str, scannedImporters: s.int, truncated: s.bool, exportsResolved: s.bool, publicExports: s.record },
+        ),
+    },
+    resolve: {
+        default: s.obj({ landmark: s.str, type: s.oneOf("intlHash", "cssClass", "store", "symbol", "literal") }, {
+            intlKey: maybeStr,
+            find: s.str,
+            moduleCount: s.int,
+            modules: s.list,
+            suffix: s.str,
+            classMapModules: s.list,
+            store: s.str,
+            definingModules: s.list,
+            referencingModules: s.list,
+            asIntlKey: s.record,
+            asActionType: s.record,
+            asEnumKey: s.record,
+        }),
+    },
+    testPatch: {
+        default: s.obj(TEST_PATCH.required, TEST_PATCH.optional),
+        synthesize: s.obj(TEST_PATCH.required, { ...TEST_PATCH.optional, synthesized: s.record }),
+    },
+    trace: {
+        start: s.obj({ id: s.int, filter: s.str, duration: s.int, maxCaptures: s.int }),
+        get: s.obj({}, { activeTraces: s.int, traces: s.list, id: s.int, remaining: s.int, typeCounts: s.record, ...CAPTURES }),
+        stop: s.obj({ stopped }, { id: s.int, typeCounts: s.record, ...CAPTURES }),
+        store: s.obj({ id: s.int, store: s.str, duration: s.int, maxCaptures: s.int }),
+    },
+    intercept: {
+        set: s.obj({ id: s.int, moduleId: s.str, exportKey: s.str, duration: s.int, maxCaptures: s.int }),
+        get: s.obj({}, { activeIntercepts: s.int, intercepts: s.list, id: s.int, moduleId: s.str, exportKey: s.str, remaining: s.int, ...CAPTURES }),
+        stop: s.obj({ stopped }, { id: s.int, ...CAPTURES }),
+    },
+    console: {
+        recent: s.obj({ count: s.int, capturing: s.bool, entries: s.list }, { nextCursor: s.str }),
+        clear: s.obj({ cleared: s.int }),
+        stats: s.obj({ capturing: s.bool, capturingSinceMs: s.int, buffered: s.int, errors: s.int, warnings: s.int }),
+    },
+    batch: {
+        default: s.obj({ count: s.int, results: s.arrayOf(s.obj({ tool: s.str }, { action: maybeStr, result: s.anyValue, error: s.bool, message: s.str })) }, { truncated: s.bool, dropped: s.int, note: s.str }),
+    },
+    reloadDiscord: {
+        default: s.obj({ reloading: s.bool, message: s.str }),
+    },
+} satisfies OutputShapeMap;
+
+const ERROR_SHAPE = s.obj({ error: s.bool, message: s.str });
+const WARNING_SHAPE = s.obj({ warning: s.str });
+
+function shapesOf(tool: string): Readonly<Record<string, s.ShapeNode>> | undefined {
+    return Object.hasOwn(OUTPUT_SHAPES, tool) ? OUTPUT_SHAPES[tool as keyof typeof OUTPUT_SHAPES] : undefined;
+}
+
+export function toolOutputSchema(tool: string): OutputSchema | undefined {
+    const shapes = shapesOf(tool);
+    if (!shapes) return undefined;
+    return { type: "object", anyOf: [...new Set(Object.values(shapes)), ERROR_SHAPE, WARNING_SHAPE] };
+}
+
+export function outputDrift(tool: string, action: string | undefined, content: unknown): s.ShapeDrift[] {
+    const shapes = shapesOf(tool);
+    if (!shapes) return [];
+    if (action) return Object.hasOwn(shapes, action) ? s.checkShape(content, shapes[action]) : [];
+    if (shapes.default) return s.checkShape(content, shapes.default);
+    let closest: s.ShapeDrift[] | null = null;
+    for (const shape of Object.values(shapes)) {
+        const drift = s.checkShape(content, shape);
+        if (!drift.length) return drift;
+        if (!closest || drift.length < closest.length) closest = drift;
+    }
+    return closest ?? [];
+}
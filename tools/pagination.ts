@@ -0,0 +1,37 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { callKey, createPageCache, type Page, type Pageable, type PageFailure } from "../finds/pageCursor";
+import { ToolError } from "../types";
+import { LIMITS } from "./constants";
+
+const pages = createPageCache({ ttlMs: LIMITS.PAGE.TTL_MS, maxEntries: LIMITS.PAGE.MAX_ENTRIES });
+
+const FAILURES: Record<PageFailure, string> = {
+    invalid: "Invalid cursor, pass nextCursor from the previous page unchanged",
+    expired: "Cursor expired, repeat the call without cursor to start over",
+    mismatch: "Cursor belongs to a different call, repeat the original arguments with only cursor added",
+};
+
+export async function paginate<V extends Pageable>(tool: string, args: object, size: number, load: () => V | Promise<V>): Promise<Page<V> | ToolError> {
+    return paginateWithSummary(tool, args, size, async () => ({ items: await load(), summary: undefined }));
+}
+
+export async function paginateWithSummary<V extends Pageable, S>(tool: string, args: object, size: number, load: () => Promise<{ items: V; summary: S }>): Promise<Page<V, S> | ToolError> {
+    const { cursor } = args as { cursor?: unknown };
+    const call = callKey(tool, args as Record<string, unknown>);
+    if (cursor == null || cursor === "") {
+        const { items, summary } = await load();
+        return pages.first(call, items, size, summary);
+    }
+    if (typeof cursor !== "string") return { error: true, message: FAILURES.invalid };
+    const page = pages.resume<V, S>(call, cursor, size);
+    return typeof page === "string" ? { error: true, message: FAILURES[page] } : page;
+}
+
+export function clearPageCache(): void {
+    pages.clear();
+}
@@ -7,14 +7,26 @@
 import { runtimeHashMessageKey } from "@utils/intlHash";
 import { canonicalizeMatch, canonicalizeReplace } from "@utils/patches";
 
+import { matchAcrossBuilds } from "../finds/buildDelta";
+import { classifyRange, effectiveRange, isObsolete, patchInBuild, type RangeStatus } from "../finds/buildRange";
 import { generateFinds } from "../finds/genFinds";
+import { guardedReplace } from "../finds/guardedReplace";
 import { diagnoseMatch, literalRuns } from "../finds/matchRepair";
+import { fingerprintModule } from "../finds/moduleFingerprint";
 import { type OverlapPatch, simulatePatchOverlaps } from "../finds/patchOverlap";
-import { FinderResult, FinderSpec, PatchToolArgs, PluginPatch, PluginReplacement, ToolResult } from "../types";
+import { FinderResult, FinderSpec, PatchToolArgs, PluginPatch, PluginReplacement, ToolContext, ToolResult, VerifyAppliedResult } from "../types";
 import { filters, findAll, findStore, plugins, webpackPatches } from "../webpack";
+import { currentBuild, fingerprintLoadedModules } from "./build_delta_tool";
 import { recentConsole } from "./console_tool";
-import { FORBIDDEN_PATCH_PATTERNS, LIMITS, MINIFIED_VARS_PATTERN } from "./constants";
+import { CONTEXT, FORBIDDEN_PATCH_PATTERNS, LIMITS, MINIFIED_VARS_PATTERN } from "./constants";
+import { readBuildNumber } from "./discord_tool";
+import { handleHotApply, handleHotRevert } from "./hot_patch_tool";
+import { paginateWithSummary } from "./pagination";
+import { loadStoredSnapshot } from "./snapshot_tool";
+import { handleSweepHistory } from "./sweep_tool";
+import { emitPatchCode } from "./test_patch_tool";
 import * as u from "./utils";
+import { handleWriteBack } from "./write_back_tool";
 
 const P = LIMITS.PATCH;
 const A = LIMITS.ANALYSIS;
@@ -33,8 +45,12 @@ interface ReplacementAnalysis {
     totalCandidates?: number;
     syntaxValid?: boolean;
     syntaxError?: string;
-    ambiguousMatches?: Array<{ moduleId: string; matched: boolean; syntaxValid?: boolean; syntaxError?: string }>;
+    produced?: string;
+    replaceCalls?: number;
+    replaceError?: string;
+    ambiguousMatches?: Array<{ moduleId: string } & ReplacementCheck>;
     flags?: ReplFlags;
+    buildRange?: RangeStatus;
     suppressedBy?: string;
 }
 
@@ -57,10 +73,26 @@ function replacePreview(replace: PluginReplacement["replace"], cap: number): str
     return typeof replace === "string" ? replace.slice(0, cap) : "[function]";
 }
 
-function verifyReplacement(matchRegex: RegExp, replace: PluginReplacement["replace"], source: string): { matched: boolean; syntaxValid?: boolean; syntaxError?: string } {
+interface ReplacementCheck {
+    matched: boolean;
+    syntaxValid?: boolean;
+    syntaxError?: string;
+    produced?: string;
+    replaceCalls?: number;
+    replaceError?: string;
+}
+
+function verifyReplacement(matchRegex: RegExp, replace: PluginReplacement["replace"], source: string): ReplacementCheck {
     matchRegex.lastIndex = 0;
     const matched = matchRegex.test(source);
-    if (!matched || typeof replace !== "string") return { matched };
+    if (!matched || replace == null) return { matched };
+    if (typeof replace === "function") {
+        const run = guardedReplace(source, matchRegex, replace, P.REPLACE_FN_BUDGET_MS);
+        const ran = { matched, replaceCalls: run.calls, ...(run.produced != null && { produced: run.produced.slice(0, P.REPLACE_FN_PRODUCED_SLICE) }) };
+        if (run.output == null || run.error) return { ...ran, replaceError: run.error ?? "no output" };
+        const err = u.checkJsSyntax(run.output);
+        return err ? { ...ran, syntaxValid: false, syntaxError: err.slice(0, 200) } : { ...ran, syntaxValid: true };
+    }
     try {
         const err = u.checkJsSyntax(source.replace(matchRegex, replace));
         return err ? { matched: true, syntaxValid: false, syntaxError: err.slice(0, 200) } : { matched: true, syntaxValid: true };
@@ -69,7 +101,22 @@ function verifyReplacement(matchRegex: RegExp, replace: PluginReplacement["repla
     }
 }
 
-function analyzeReplacement(r: PluginReplacement, modules: Array<{ id: string; source: string }>, parent?: PluginPatch): ReplacementAnalysis {
+function checkFunctionReplacements(patch: PluginPatch, moduleId: string) {
+    const checks = u.getReplacements(patch).flatMap((r, replacementIndex) => {
+        if (typeof r.replace !== "function" || !r.match) return [];
+        const regex = u.safeCall<RegExp | null>(() => u.buildPatchRegex(r.match!), null);
+        return regex ? [{ replacementIndex, ...verifyReplacement(regex, r.replace, u.getModuleSource(moduleId)) }] : [];
+    });
+    return checks.length ? checks : undefined;
+}
+
+function analyzeReplacement(r: PluginReplacement, modules: Array<{ id: string; source: string }>, parent?: PluginPatch, build: number | null = null): ReplacementAnalysis {
+    const out = inspectReplacement(r, modules, parent);
+    const buildRange = classifyRange(effectiveRange(parent ?? {}, r), build, !!out.matchFound || !!out.matchedModules);
+    return buildRange ? { ...out, buildRange } : out;
+}
+
+function inspectReplacement(r: PluginReplacement, modules: Array<{ id: string; source: string }>, parent?: PluginPatch): ReplacementAnalysis {
     const out: ReplacementAnalysis = {
         match: r.match?.toString().slice(0, P.REPLACEMENT_MATCH_SLICE),
         replace: replacePreview(r.replace, P.REPLACEMENT_REPLACE_SLICE),
@@ -106,11 +153,9 @@ function analyzeReplacement(r: PluginReplacement, modules: Array<{ id: string; s
     if (!modules.length) return out;
 
     if (modules.length === 1) {
-        const { matched, syntaxValid, syntaxError } = verifyReplacement(matchRegex, r.replace, modules[0].source);
+        const { matched, ...check } = verifyReplacement(matchRegex, r.replace, modules[0].source);
         out.matchFound = matched;
-        if (syntaxValid !== undefined) out.syntaxValid = syntaxValid;
-        if (syntaxError) out.syntaxError = syntaxError;
-        return out;
+        return Object.assign(out, check);
     }
 
     const per = modules.map(m => ({ moduleId: m.id, ...verifyReplacement(matchRegex, r.replace, m.source) }));
@@ -120,7 +165,128 @@ function analyzeReplacement(r: PluginReplacement, modules: Array<{ id: string; s
     return out;
 }
 
-export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
+function freshUniqueFinds(source: string, max: number) {
+    const finds = source ? generateFinds(source, { hashToKey: h => u.getIntlKeyFromHash(h), limit: 60, synthesizePairs: true }) : [];
+    const literalFinds = finds.filter(f => !f.regex);
+    const canonByFind = new Map(literalFinds.map(f => [f.find, canonicalizeMatch(f.find)]));
+    const counts = u.batchCountModuleMatches([...new Set(canonByFind.values())], 2);
+    const suggestedFinds = finds
+        .filter(f => {
+            if (f.regex) {
+                const re = u.safeCall<RegExp | null>(() => new RegExp(f.find), null);
+                return !!re && u.findModuleIds(src => re.test(src), 2).length === 1;
+            }
+            return (counts.get(canonByFind.get(f.find) ?? f.find)?.count ?? 0) === 1;
+        })
+        .slice(0, max)
+        .map(f => ({ find: f.find, durability: f.durability, tier: f.tier, ...(f.regex && { regex: true, type: f.type }) }));
+    return { generated: finds.length, suggestedFinds };
+}
+
+function migrateReplacement(r: PluginReplacement, source: string) {
+    const { match: raw } = r;
+    const match = raw?.toString().slice(0, P.REPLACEMENT_MATCH_SLICE) ?? "";
+    const canon = raw ? u.safeCall<RegExp | null>(() => u.buildPatchRegex(raw), null) : null;
+    if (!canon) return { match, status: "invalid" as const };
+
+    const pattern = raw instanceof RegExp && !raw.source.includes("#{intl::") ? raw.source : canon.source;
+    const repair = diagnoseMatch(source, pattern, canon.flags);
+    const proposed = repair.status === "matches" ? pattern : repair.adjustedPattern;
+    if (!proposed) return { match, status: repair.status, failureKind: repair.failureKind, missingLiterals: repair.missingLiterals.slice(0, 5) };
+
+    const regex = canonicalizeMatch(new RegExp(proposed, canon.flags));
+    const { matched, syntaxValid, syntaxError, replaceError } = verifyReplacement(regex, r.replace, source);
+    const preview = matched && typeof r.replace === "string" && repair.matchIndex != null
+        ? u.snippet(source.replace(regex, r.replace), repair.matchIndex, r.replace.length, CONTEXT.REPLACEMENT_BEFORE, CONTEXT.REPLACEMENT_AFTER)
+        : undefined;
+    return {
+        match,
+        status: repair.status,
+        ...(repair.status === "repaired" && { proposedMatch: `/${proposed}/${canon.flags}`, note: repair.adjustmentNote }),
+        replace: replacePreview(r.replace, P.REPLACEMENT_REPLACE_SLICE),
+        verified: matched && syntaxValid !== false && !replaceError,
+        ...(syntaxError && { syntaxError }),
+        ...(replaceError && { replaceError }),
+        preview,
+    };
+}
+
+async function migratePatches(args: PatchToolArgs, ctx: ToolContext): Promise<ToolResult> {
+    const build = currentBuild();
+    if (!build) return { error: true, message: "Current build has no versionHash (GLOBAL_ENV.VERSION_HASH missing)" };
+    const previous = await loadStoredSnapshot(args.build);
+    if ("error" in previous) return previous;
+    if (previous.build === build) return { error: true, message: `Snapshot ${build} is the current build. Pass build to pick an older one` };
+
+    type Broken = { plugin: string; patchIndex: number; patch: PluginPatch; matcher: u.CanonFindMatcher; prevIds: string[] };
+    const broken: Broken[] = [];
+    for (const [nm, plugin] of Object.entries(plugins)) {
+        if (args.pluginName && !nm.toLowerCase().includes(args.pluginName.toLowerCase())) continue;
+        (plugin.patches ?? []).forEach((patch, patchIndex) => {
+            const matcher = u.canonFindMatcher(patch.find);
+            if (!u.findModuleIds(matcher.test, 1, matcher.needles).length) broken.push({ plugin: nm, patchIndex, patch, matcher, prevIds: [] });
+        });
+    }
+
+    const max = u.clamp(args.limit, 10, 1, 50);
+    const targets = broken.slice(0, max);
+    for (const [i, t] of targets.entries()) {
+        await ctx.progress(i, targets.length * 2, `locating ${t.plugin} patch ${t.patchIndex} in ${previous.build}`);
+        for (const [id, src] of previous.sources) {
+            if (!t.matcher.test(src)) continue;
+            t.prevIds.push(id);
+            if (t.prevIds.length >= P.MIGRATE_PREVIOUS_CANDIDATES) break;
+        }
+        if (t.prevIds.length > 1) {
+            const matches = u.getReplacements(t.patch).flatMap(({ match }) => match ? [u.safeCall<RegExp | null>(() => u.stripGlobal(u.buildPatchRegex(match)), null)] : []).filter((re): re is RegExp => !!re);
+            const fitting = t.prevIds.filter(id => matches.some(re => re.test(previous.sources.get(id)!)));
+            if (fitting.length) t.prevIds = fitting;
+        }
+    }
+
+    const located = [...new Set(targets.filter(t => t.prevIds.length === 1).map(t => t.prevIds[0]))];
+    const successors = new Map(matchAcrossBuilds(
+        located.map(id => ({ id, fp: fingerprintModule(previous.sources.get(id)!) })),
+        await fingerprintLoadedModules(build),
+    ).matched.map(m => [m.prevId, m]));
+
+    const patches: Record<string, unknown>[] = [];
+    for (const [i, t] of targets.entries()) {
+        await ctx.progress(targets.length + i, targets.length * 2, `migrating ${t.plugin} patch ${t.patchIndex}`);
+        const base = { plugin: t.plugin, patchIndex: t.patchIndex, find: u.patchFindAsString(t.patch.find).slice(0, P.BROKEN_FIND_SLICE) };
+        if (!t.prevIds.length) { patches.push({ ...base, verdict: "NOT_IN_PREVIOUS_BUILD" }); continue; }
+        if (t.prevIds.length > 1) { patches.push({ ...base, verdict: "AMBIGUOUS_IN_PREVIOUS_BUILD", previousCandidates: t.prevIds }); continue; }
+        const prevId = t.prevIds[0];
+        const successor = successors.get(prevId);
+        if (!successor) { patches.push({ ...base, previousModule: prevId, verdict: "NO_SUCCESSOR" }); continue; }
+
+        const source = u.getModuleSource(successor.currId);
+        const { suggestedFinds } = freshUniqueFinds(source, 3);
+        const replacements = u.getReplacements(t.patch).map(r => migrateReplacement(r, source));
+        const allVerified = replacements.every(r => "verified" in r && r.verified);
+        patches.push({
+            ...base,
+            previousModule: prevId,
+            successor: { id: successor.currId, hint: u.getModuleHint(successor.currId), score: +successor.score.toFixed(3), renumbered: successor.currId !== prevId },
+            proposedFind: suggestedFinds[0]?.find ?? null,
+            alternativeFinds: suggestedFinds.slice(1),
+            replacements,
+            verdict: !suggestedFinds.length ? "NO_UNIQUE_FIND" : allVerified ? "MIGRATED" : "NEEDS_MATCH_REPAIR",
+        });
+    }
+
+    return {
+        from: previous.build,
+        to: build,
+        brokenCount: broken.length,
+        migrated: patches.filter(p => p.verdict === "MIGRATED").length,
+        truncated: broken.length > max ? true : undefined,
+        note: "Each broken find is located in the stored snapshot, mapped to its successor by landmark fingerprint, and given a fresh unique find. Every replacement is diagnosed against the successor: status matches keeps the old match, repaired proposes a widened or lookaround-stripped match, and verified means the replace applied with valid syntax. MIGRATED patches still need testPatch before writing.",
+        patches,
+    };
+}
+
+export async function handlePatch(args: PatchToolArgs, ctx: ToolContext = u.NO_TOOL_CONTEXT): Promise<ToolResult> {
     const { action, find: findStr, str, pluginName } = args;
 
     if (action === "unique" || (str && !action)) {
@@ -128,7 +294,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         if (!searchStr) return { error: true, message: "str or find required" };
 
         const canonSearch = canonicalizeMatch(searchStr);
-        const moduleIds = u.findModuleIds(source => source.includes(canonSearch), P.UNIQUE_EARLY_EXIT);
+        const moduleIds = u.findModuleIds(source => source.includes(canonSearch), P.UNIQUE_EARLY_EXIT, [canonSearch]);
         const count = moduleIds.length;
 
         return {
@@ -154,24 +320,28 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
             return { name: pluginName, enabled: plugin.started ?? false, patchCount: 0 };
         }
 
-        let ok = 0, broken = 0, ambiguous = 0;
+        const build = readBuildNumber();
+        let ok = 0, broken = 0, ambiguous = 0, outOfRange = 0, replaceErrors = 0;
 
         const patchDetails = plugin.patches.map((patch, index) => {
             const rawFind = u.patchFindAsString(patch.find);
             const matcher = u.canonFindMatcher(patch.find);
             const canonFind = matcher.canonical;
-            const matchingModules = u.findModuleIds(matcher.test, P.PLUGIN_MATCH_EARLY_EXIT);
+            const matchingModules = u.findModuleIds(matcher.test, P.PLUGIN_MATCH_EARLY_EXIT, matcher.needles);
             const moduleCount = matchingModules.length;
 
             const rawStatus = moduleCount === 0 ? "NO_MATCH" : moduleCount === 1 ? "OK" : "MULTIPLE_MATCH";
             const status = rawStatus === "MULTIPLE_MATCH" && patch.all === true ? "OK_ALL" : rawStatus;
 
-            if (status === "OK" || status === "OK_ALL") ok++;
+            const relevant = patchInBuild(patch, build);
+            if (!relevant) outOfRange++;
+            else if (status === "OK" || status === "OK_ALL") ok++;
             else if (status === "NO_MATCH") broken++;
             else ambiguous++;
 
             const candidateModules = matchingModules.map(id => ({ id, source: u.getModuleSource(id) }));
-            const replacementInfo = u.getReplacements(patch).map(r => analyzeReplacement(r, candidateModules, patch));
+            const replacementInfo = u.getReplacements(patch).map(r => analyzeReplacement(r, candidateModules, patch, build));
+            replaceErrors += replacementInfo.filter(r => r.replaceError || r.ambiguousMatches?.some(m => m.replaceError)).length;
 
             const flags: Record<string, unknown> = {};
             if (patch.all) flags.all = true;
@@ -185,6 +355,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
 
             const info: Record<string, unknown> = { index, find: rawFind.slice(0, P.RAW_FIND_SLICE), status, moduleCount, replacements: replacementInfo };
             if (Object.keys(flags).length) info.flags = flags;
+            if (!relevant) info.buildRange = moduleCount ? "outOfRangeStillMatching" : "outOfRangeExpectedDead";
             if (groupHealth) info.groupHealth = groupHealth;
             if (status === "OK") info.moduleId = matchingModules[0];
             if (status === "MULTIPLE_MATCH" || status === "OK_ALL") info.moduleIds = matchingModules.slice(0, P.PLUGIN_MATCH_PREVIEW);
@@ -202,8 +373,9 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
             name: pluginName,
             enabled: plugin.started ?? false,
             patchCount: plugin.patches.length,
-            summary: { ok, broken, ambiguous },
-            health: u.healthStatus(broken, plugin.patches.length),
+            buildNumber: build,
+            summary: { ok, broken, ambiguous, ...(outOfRange && { outOfRange }), ...(replaceErrors && { replaceErrors }) },
+            health: u.healthStatus(broken, plugin.patches.length - outOfRange),
             patches: patchDetails,
         };
     }
@@ -213,94 +385,110 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         const showMultiMatch = args.showMultiMatch ?? true;
         const showValid = args.showValid ?? false;
 
-        const issues: AnalyzeIssue[] = [];
+        const paged = await paginateWithSummary("patch", args, P.ANALYZE_MAX_ISSUES, async () => {
+            const issues: AnalyzeIssue[] = [];
 
-        const stats = { totalPlugins: 0, totalPatches: 0, noMatch: 0, multiMatch: 0, slowPatches: 0, validPatches: 0, likelyNotLoaded: 0 };
-        const patchInfos: Array<{ plugin: string; enabled: boolean; patchIndex: number; rawFind: string; canonFind: string; matcher: u.CanonFindMatcher; all: boolean; noWarn: boolean }> = [];
+            const build = readBuildNumber();
+            const stats = { totalPlugins: 0, totalPatches: 0, noMatch: 0, multiMatch: 0, slowPatches: 0, validPatches: 0, likelyNotLoaded: 0, outOfRange: 0 };
+            const patchInfos: Array<{ plugin: string; enabled: boolean; patchIndex: number; rawFind: string; canonFind: string; matcher: u.CanonFindMatcher; all: boolean; noWarn: boolean; relevant: boolean }> = [];
 
-        for (const [nm, plugin] of Object.entries(plugins)) {
-            if (pluginName && !nm.toLowerCase().includes(pluginName.toLowerCase())) continue;
-            if (!plugin.patches?.length) continue;
-
-            stats.totalPlugins++;
-            const enabled = plugin.started ?? false;
-            stats.totalPatches += plugin.patches.length;
-            plugin.patches.forEach((patch, i) => {
-                const matcher = u.canonFindMatcher(patch.find);
-                patchInfos.push({
-                    plugin: nm,
-                    enabled,
-                    patchIndex: i,
-                    rawFind: u.patchFindAsString(patch.find),
-                    canonFind: matcher.canonical,
-                    matcher,
-                    all: !!patch.all,
-                    noWarn: !!patch.noWarn,
-                });
-            });
-        }
+            for (const [nm, plugin] of Object.entries(plugins)) {
+                if (pluginName && !nm.toLowerCase().includes(pluginName.toLowerCase())) continue;
+                if (!plugin.patches?.length) continue;
 
-        const stringOnly = patchInfos.filter(p => !p.matcher.isRegex);
-        const uniqueFinds = [...new Set(stringOnly.map(p => p.canonFind))];
-        const batchResults = u.batchCountModuleMatches(uniqueFinds, P.UNIQUE_EARLY_EXIT);
+                stats.totalPlugins++;
+                const enabled = plugin.started ?? false;
+                stats.totalPatches += plugin.patches.length;
+                plugin.patches.forEach((patch, i) => {
+                    const matcher = u.canonFindMatcher(patch.find);
+                    patchInfos.push({
+                        plugin: nm,
+                        enabled,
+                        patchIndex: i,
+                        rawFind: u.patchFindAsString(patch.find),
+                        canonFind: matcher.canonical,
+                        matcher,
+                        all: !!patch.all,
+                        noWarn: !!patch.noWarn,
+                        relevant: patchInBuild(patch, build),
+                    });
+                });
+            }
 
-        for (const { plugin: nm, enabled, patchIndex: i, rawFind, canonFind, matcher, all, noWarn } of patchInfos) {
-            const moduleCount = matcher.isRegex
-                ? u.findModuleIds(matcher.test, P.UNIQUE_EARLY_EXIT).length
-                : (batchResults.get(canonFind)?.count ?? 0);
-            const usesIntl = rawFind.includes("#{intl::");
-            const displayFind = usesIntl ? rawFind.slice(0, P.ANALYZE_FIND_SLICE) : canonFind.slice(0, P.ANALYZE_FIND_SLICE);
-            const mkIssue = (issue: string, severity: string, moduleCount: number): AnalyzeIssue => ({ plugin: nm, enabled: enabled ? true : undefined, patchIndex: i, find: displayFind, issue, severity, moduleCount });
+            const stringOnly = patchInfos.filter(p => !p.matcher.isRegex);
+            const uniqueFinds = [...new Set(stringOnly.map(p => p.canonFind))];
+            await ctx.progress(0, patchInfos.length, "counting find matches");
+            const batchResults = u.batchCountModuleMatches(uniqueFinds, P.UNIQUE_EARLY_EXIT);
+
+            let checked = 0;
+            for (const { plugin: nm, enabled, patchIndex: i, rawFind, canonFind, matcher, all, noWarn, relevant } of patchInfos) {
+                await ctx.progress(++checked, patchInfos.length, `${nm} patch ${i}`);
+                const moduleCount = matcher.isRegex
+                    ? u.findModuleIds(matcher.test, P.UNIQUE_EARLY_EXIT).length
+                    : (batchResults.get(canonFind)?.count ?? 0);
+                const usesIntl = rawFind.includes("#{intl::");
+                const displayFind = usesIntl ? rawFind.slice(0, P.ANALYZE_FIND_SLICE) : canonFind.slice(0, P.ANALYZE_FIND_SLICE);
+                const mkIssue = (issue: string, severity: string, moduleCount: number): AnalyzeIssue => ({ plugin: nm, enabled: enabled ? true : undefined, patchIndex: i, find: displayFind, issue, severity, moduleCount });
+
+                if (!relevant) {
+                    stats.outOfRange++;
+                    if (showValid) issues.push({ ...mkIssue(moduleCount ? "OUT_OF_RANGE_STILL_MATCHING" : "OUT_OF_RANGE_EXPECTED_DEAD", "info", moduleCount), details: `fromBuild/toBuild excludes build ${build}` });
+                    continue;
+                }
 
-            if (moduleCount === 0) {
-                if (noWarn) { stats.validPatches++; continue; }
-                stats.noMatch++;
-                if (showNoMatch) {
-                    const issue = { ...mkIssue("NO_MATCH", "error", 0), details: "Find matches no modules" };
-
-                    if (usesIntl && canonFind !== rawFind) {
-                        issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
-                        const probe = u.probeIntlKey(rawFind);
-                        if (probe) {
-                            Object.assign(issue, probe);
-                            if (probe.intlStatus === "key_valid_but_unused") {
-                                const h = u.runtimeHashMessageKey(probe.intlKey);
-                                const usedInLoaded = u.countModuleMatches(`.t.${h}`, 1) > 0 || u.countModuleMatches(`.t["${h}"]`, 1) > 0;
-                                if (usedInLoaded) {
-                                    issue.details = "Intl key is valid and its module is loaded, but this find does not match. The find may be stale.";
+                if (moduleCount === 0) {
+                    if (noWarn) { stats.validPatches++; continue; }
+                    stats.noMatch++;
+                    if (showNoMatch) {
+                        const issue = { ...mkIssue("NO_MATCH", "error", 0), details: "Find matches no modules" };
+
+                        if (usesIntl && canonFind !== rawFind) {
+                            issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
+                            const probe = u.probeIntlKey(rawFind);
+                            if (probe) {
+                                Object.assign(issue, probe);
+                                if (probe.intlStatus === "key_valid_but_unused") {
+                                    const h = u.runtimeHashMessageKey(probe.intlKey);
+                                    const usedInLoaded = u.countModuleMatches(`.t.${h}`, 1) > 0 || u.countModuleMatches(`.t["${h}"]`, 1) > 0;
+                                    if (usedInLoaded) {
+                                        issue.details = "Intl key is valid and its module is loaded, but this find does not match. The find may be stale.";
+                                    } else {
+                                        issue.severity = "warning";
+                                        issue.likelyNotLoaded = true;
+                                        issue.details = "Intl key is valid but no loaded module uses it. The target module is likely not loaded this session. The patch is probably fine. Open the target screen to confirm.";
+                                        stats.likelyNotLoaded++;
+                                    }
                                 } else {
-                                    issue.severity = "warning";
-                                    issue.likelyNotLoaded = true;
-                                    issue.details = "Intl key is valid but no loaded module uses it. The target module is likely not loaded this session. The patch is probably fine. Open the target screen to confirm.";
-                                    stats.likelyNotLoaded++;
+                                    issue.details = "Intl key not in Discord definitions";
                                 }
-                            } else {
-                                issue.details = "Intl key not in Discord definitions";
                             }
                         }
+                        issues.push(issue);
+                    }
+                } else if (moduleCount > 1) {
+                    if (all) { stats.validPatches++; continue; }
+                    stats.multiMatch++;
+                    if (showMultiMatch) {
+                        const issue = { ...mkIssue("MULTIPLE_MATCH", "warning", moduleCount), details: `Matches ${moduleCount}+ modules` };
+                        if (usesIntl && canonFind !== rawFind) issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
+                        issues.push(issue);
+                    }
+                } else {
+                    stats.validPatches++;
+                    if (showValid) {
+                        const issue = mkIssue("OK", "info", 1);
+                        if (usesIntl && canonFind !== rawFind) issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
+                        issues.push(issue);
                     }
-                    issues.push(issue);
-                }
-            } else if (moduleCount > 1) {
-                if (all) { stats.validPatches++; continue; }
-                stats.multiMatch++;
-                if (showMultiMatch) {
-                    const issue = { ...mkIssue("MULTIPLE_MATCH", "warning", moduleCount), details: `Matches ${moduleCount}+ modules` };
-                    if (usesIntl && canonFind !== rawFind) issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
-                    issues.push(issue);
-                }
-            } else {
-                stats.validPatches++;
-                if (showValid) {
-                    const issue = mkIssue("OK", "info", 1);
-                    if (usesIntl && canonFind !== rawFind) issue.canonicalizedFind = canonFind.slice(0, P.ANALYZE_CANON_SLICE);
-                    issues.push(issue);
                 }
             }
-        }
 
-        const note = stats.likelyNotLoaded > 0 ? `${stats.likelyNotLoaded} NO_MATCH patch(es) target valid intl keys whose module isn't loaded this session and are likely fine, not broken` : undefined;
-        return { stats, issueCount: stats.noMatch + stats.multiMatch, note, issues: issues.slice(0, P.ANALYZE_MAX_ISSUES) };
+            const note = stats.likelyNotLoaded > 0 ? `${stats.likelyNotLoaded} NO_MATCH patch(es) target valid intl keys whose module isn't loaded this session and are likely fine, not broken` : undefined;
+            return { items: issues, summary: { buildNumber: build, stats, note } };
+        });
+        if ("error" in paged) return paged;
+        const { stats, note } = paged.summary;
+        return { buildNumber: paged.summary.buildNumber, stats, issueCount: stats.noMatch + stats.multiMatch, note, offset: paged.offset, issues: paged.page, nextCursor: paged.nextCursor };
     }
 
     if (action === "lint") {
@@ -341,7 +529,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         const findAnalysis = analyzePattern(findStr, true);
         const matchAnalysis = matchPattern ? analyzePattern(matchPattern, false) : null;
         const canonFind = canonicalizeMatch(findStr);
-        const moduleIds = u.findModuleIds(src => src.includes(canonFind), P.LINT_EARLY_EXIT);
+        const moduleIds = u.findModuleIds(src => src.includes(canonFind), P.LINT_EARLY_EXIT, [canonFind]);
         const allErrors = [...findAnalysis.errors, ...(matchAnalysis?.errors ?? [])];
         const allWarnings = [...findAnalysis.warnings, ...(matchAnalysis?.warnings ?? [])];
 
@@ -412,7 +600,8 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
 
         for (const { name: nm, patch, index: patchIdx } of u.eachPatch()) {
             const rawFind = u.patchFindAsString(patch.find);
-            const moduleIds = u.findModuleIds(u.canonFindMatcher(patch.find).test, P.CONFLICTS_EARLY_EXIT);
+            const matcher = u.canonFindMatcher(patch.find);
+            const moduleIds = u.findModuleIds(matcher.test, P.CONFLICTS_EARLY_EXIT, matcher.needles);
             for (const mid of moduleIds) {
                 let list = modulePlugins.get(mid);
                 if (!list) modulePlugins.set(mid, list = []);
@@ -432,7 +621,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         let moduleId = args.id;
         if (moduleId == null && findStr) {
             const canon = canonicalizeMatch(findStr);
-            moduleId = u.findModuleIds(src => src.includes(canon), P.DIFF_EARLY_EXIT)[0];
+            moduleId = u.findModuleIds(src => src.includes(canon), P.DIFF_EARLY_EXIT, [canon])[0];
         }
         if (!moduleId) return { error: true, message: findStr ? `No loaded module matches the find: ${findStr.slice(0, 80)}` : "id or find required" };
 
@@ -477,7 +666,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         let moduleId = args.id;
         if (moduleId == null && findStr) {
             const canon = canonicalizeMatch(findStr);
-            moduleId = u.findModuleIds(src => src.includes(canon), P.DIFF_EARLY_EXIT)[0];
+            moduleId = u.findModuleIds(src => src.includes(canon), P.DIFF_EARLY_EXIT, [canon])[0];
         }
         if (!moduleId) return { error: true, message: "id or find required" };
 
@@ -534,7 +723,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
                 }
                 const fragments = canonFind.split(/(?=[.,()[\]{}:;=!&|?])|(?<=[.,()[\]{}:;=!&|?])/).filter(f => f.length >= P.BROKEN_FRAGMENT_MIN_LEN);
                 for (const frag of fragments.slice(0, P.BROKEN_FRAGMENT_MAX)) {
-                    const fragMatches = u.findModuleIds(src => src.includes(frag), P.BROKEN_FRAGMENT_EARLY_EXIT);
+                    const fragMatches = u.findModuleIds(src => src.includes(frag), P.BROKEN_FRAGMENT_EARLY_EXIT, [frag]);
                     if (fragMatches.length) {
                         info.partialMatch = { fragment: frag.slice(0, P.BROKEN_FRAGMENT_SLICE), modules: fragMatches.slice(0, P.BROKEN_FRAGMENT_PREVIEW) };
                         break;
@@ -557,9 +746,9 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         const [resolvedName, plugin] = entry;
         const enabled = plugin.started ?? false;
 
-        const results = (plugin.patches ?? []).map((patch, index) => {
+        const results = (plugin.patches ?? []).map((patch, index): VerifyAppliedResult["patches"][number] => {
             const matcher = u.canonFindMatcher(patch.find);
-            const ids = u.findModuleIds(matcher.test, 3);
+            const ids = u.findModuleIds(matcher.test, 3, matcher.needles);
             const modules = ids.map(mid => {
                 const patchedBy = u.getModulePatchedBy(mid);
                 const original = u.getModuleSource(mid);
@@ -577,7 +766,8 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
                 : modules[0].appliedByThisPlugin && modules[0].sourceChanged ? "APPLIED"
                 : modules[0].appliedByThisPlugin ? "CONSUMED_NO_CHANGE"
                 : "NOT_APPLIED";
-            return { index, find: u.patchFindAsString(patch.find).slice(0, 100), status, modules };
+            const functionReplacements = ids.length === 1 ? checkFunctionReplacements(patch, modules[0].moduleId) : undefined;
+            return { index, find: u.patchFindAsString(patch.find).slice(0, 100), status, modules, ...(functionReplacements && { functionReplacements }) };
         });
 
         const errors = recentConsole("error", 120_000, 20);
@@ -606,6 +796,43 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
                 : undefined,
             recentErrors: errors.length ? errors.slice(-5).map(e => e.text.slice(0, 160)) : undefined,
             patches: results,
+        } satisfies VerifyAppliedResult;
+    }
+
+    if (action === "migrate") return migratePatches(args, ctx);
+
+    if (action === "writeBack") return handleWriteBack(args);
+
+    if (action === "history") return handleSweepHistory(args);
+
+    if (action === "hotApply") return handleHotApply(args);
+
+    if (action === "hotRevert") return handleHotRevert(args);
+
+    if (action === "obsolete") {
+        const build = readBuildNumber();
+        if (build == null) return { error: true, message: "Could not read the running build number, so build ranges cannot be judged" };
+
+        const obsolete: Array<Record<string, unknown>> = [];
+        for (const { name: nm, patch, index } of u.eachPatch()) {
+            if (pluginName && !nm.toLowerCase().includes(pluginName.toLowerCase())) continue;
+            const replacements = u.getReplacements(patch);
+            if (patch.toBuild == null && !replacements.some(r => r.toBuild != null)) continue;
+            const find = u.patchFindAsString(patch.find).slice(0, P.RAW_FIND_SLICE);
+            if (isObsolete(patch, build) || (replacements.length > 0 && replacements.every(r => isObsolete(effectiveRange(patch, r), build)))) {
+                obsolete.push({ plugin: nm, patchIndex: index, find, toBuild: patch.toBuild ?? Math.max(...replacements.map(r => effectiveRange(patch, r).toBuild!)), remove: "patch" });
+                continue;
+            }
+            replacements.forEach((r, replacementIndex) => {
+                if (isObsolete(r, build)) obsolete.push({ plugin: nm, patchIndex: index, replacementIndex, find, match: r.match?.toString().slice(0, P.REPLACEMENT_MATCH_SLICE), toBuild: r.toBuild, remove: "replacement" });
+            });
+        }
+
+        return {
+            buildNumber: build,
+            count: obsolete.length,
+            note: "Each entry has a toBuild below the running build. Builds only move forward, so these never apply again and can be deleted. Canary runs ahead of stable, so check the oldest build you still support before deleting",
+            obsolete,
         };
     }
 
@@ -618,19 +845,22 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         const probeScan = (probe: string, earlyExit: number): string[] => {
             const key = `${earlyExit}:${probe}`;
             let ids = probeCache.get(key);
-            if (!ids) { ids = u.findModuleIds(src => src.includes(probe), earlyExit); probeCache.set(key, ids); }
+            if (!ids) { ids = u.findModuleIds(src => src.includes(probe), earlyExit, [probe]); probeCache.set(key, ids); }
             return ids;
         };
 
         type Target = { plugin?: string; rawFind: string; canonFind: string };
         const targets: Target[] = [];
+        let scanned = 0;
         if (args.find) {
             const m = u.canonFindMatcher(args.find);
             targets.push({ rawFind: args.find, canonFind: m.canonical });
         } else {
-            for (const [nm, plugin] of Object.entries(plugins)) {
+            const entries = Object.entries(plugins);
+            for (const [idx, [nm, plugin]] of entries.entries()) {
                 if (pluginName && !nm.toLowerCase().includes(pluginName.toLowerCase())) continue;
                 if (!plugin.patches?.length) continue;
+                await ctx.progress(idx, undefined, `checking ${nm}`);
                 for (const patch of plugin.patches) {
                     const m = u.canonFindMatcher(patch.find);
                     if (m.isRegex) continue;
@@ -639,9 +869,10 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
                     }
                 }
             }
+            scanned = entries.length;
         }
 
-        const suggestions = targets.slice(0, max).map(t => {
+        const suggestFor = (t: Target) => {
             const candidateIds: string[] = [];
             const seenIds = new Set<string>();
             const addIds = (ids: string[]) => {
@@ -658,7 +889,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
             }
             for (const hash of hashes) {
                 if (candidateIds.length >= 3) break;
-                addIds(u.findModuleIds(src => src.includes(`.t.${hash}`) || src.includes(`.t["${hash}"]`), 4));
+                addIds(u.findModuleIds(src => src.includes(`.t.${hash}`) || src.includes(`.t["${hash}"]`), 4, [hash]));
             }
 
             if (candidateIds.length < 3) addIds(probeScan(t.canonFind, 4));
@@ -685,20 +916,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
 
             const targetCandidates = candidateIds.slice(0, 3).map(id => {
                 const source = u.getModuleSource(id);
-                const finds = source ? generateFinds(source, { hashToKey: h => u.getIntlKeyFromHash(h), limit: 60, synthesizePairs: true }) : [];
-                const literalFinds = finds.filter(f => !f.regex);
-                const canonByFind = new Map(literalFinds.map(f => [f.find, canonicalizeMatch(f.find)]));
-                const counts = u.batchCountModuleMatches([...new Set(canonByFind.values())], 2);
-                const suggestedFinds = finds
-                    .filter(f => {
-                        if (f.regex) {
-                            const re = u.safeCall<RegExp | null>(() => new RegExp(f.find), null);
-                            return !!re && u.findModuleIds(src => re.test(src), 2).length === 1;
-                        }
-                        return (counts.get(canonByFind.get(f.find) ?? f.find)?.count ?? 0) === 1;
-                    })
-                    .slice(0, 3)
-                    .map(f => ({ find: f.find, durability: f.durability, tier: f.tier, ...(f.regex && { regex: true, type: f.type }) }));
+                const { generated, suggestedFinds } = freshUniqueFinds(source, 3);
                 const repair = canonMatchRe && source ? diagnoseMatch(source, canonMatchRe.source, canonMatchRe.flags) : undefined;
                 const matchRepair = repair && {
                     status: repair.status,
@@ -706,17 +924,28 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
                     ...(repair.adjustedPattern && { adjustedMatch: repair.adjustedPattern, note: repair.adjustmentNote }),
                     ...(repair.missingLiterals.length && { missingLiterals: repair.missingLiterals.slice(0, 5) })
                 };
-                const keep = suggestedFinds.length > 0 || !!matchRepair || (!canonMatchRe && finds.length > 0);
-                return { moduleId: id, hint: u.getModuleHint(id), suggestedFinds, keep, ...(matchRepair && { matchRepair }) };
+                const keep = suggestedFinds.length > 0 || !!matchRepair || (!canonMatchRe && generated > 0);
+                const fixedMatch = repair?.status === "matches" ? args.match : repair?.adjustedPattern && `/${repair.adjustedPattern}/${canonMatchRe!.flags}`;
+                const patchCode = args.emitCode && args.replace != null && suggestedFinds[0] && fixedMatch
+                    ? emitPatchCode(suggestedFinds[0].find, fixedMatch, args.replace, { findRegex: !!suggestedFinds[0].regex, group: args.group, noWarn: args.noWarn })
+                    : undefined;
+                return { moduleId: id, hint: u.getModuleHint(id), suggestedFinds, keep, ...(matchRepair && { matchRepair }), ...(patchCode && { patchCode }) };
             }).filter(c => c.keep).map(({ keep, ...c }) => c);
 
             return { plugin: t.plugin, brokenFind: t.rawFind.slice(0, 120), targetCandidates };
-        });
+        };
+
+        const suggestions: ReturnType<typeof suggestFor>[] = [];
+        for (const t of targets.slice(0, max)) {
+            await ctx.progress(scanned + suggestions.length, scanned + Math.min(targets.length, max), "relocating broken finds");
+            suggestions.push(suggestFor(t));
+        }
 
         const anyLocated = suggestions.some(s => s.targetCandidates.length > 0);
         return {
             count: suggestions.length,
             note: "For each broken find, the target module is located and fresh durable unique finds are generated. When no single token is unique, bounded-gap regex pair finds (regex:true, type 'pair') are offered instead. Pass `match` to also diagnose the match regex against each candidate: matchRepair reports whether it still fits and, when repairable, a verified adjusted match (widened bounded gaps / stripped stale lookarounds).",
+            ...(args.emitCode && (!args.match || args.replace == null) && { patchCodeSkipped: "emitCode needs both match and replace" }),
             ...(matchInvalid && { matchWarning: "The provided `match` could not be parsed as a regex and was ignored. matchRepair was not computed. Pass it as /pattern/flags or a plain regex body." }),
             ...(suggestions.length && !anyLocated && {
                 hint: "Could not relocate the target module. Relocation probes intl hashes, the full canonical find, and fragment/match-literal intersections. A find mutated INSIDE its single unique token (not just trailing junk) can defeat it. Try passing `match` too, or manually `search` for a surviving literal substring of the find.",
@@ -725,7 +954,7 @@ export async function handlePatch(args: PatchToolArgs): Promise<ToolResult> {
         };
     }
 
-    return { error: true, message: "Unknown action. Valid: unique, plugin, analyze, lint, finds, conflicts, overlaps, diff, broken, suggestFix, verifyApplied" };
+    return { error: true, message: "Unknown action. Valid: unique, plugin, analyze, lint, finds, conflicts, overlaps, diff, broken, suggestFix, migrate, writeBack, obsolete, verifyApplied, history, hotApply, hotRevert" };
 }
 
 function validateFinder(spec: FinderSpec): FinderResult {
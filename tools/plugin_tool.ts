@@ -4,9 +4,11 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { patchInBuild } from "../finds/buildRange";
 import { PluginOption, PluginToolArgs, ToolResult } from "../types";
 import { plugins, pluginSettings, startPlugin, stopPlugin } from "../webpack";
 import { LIMITS, OPTION_TYPE_NAMES } from "./constants";
+import { readBuildNumber } from "./discord_tool";
 import * as u from "./utils";
 
 function ensurePluginSettings(name: string) {
@@ -112,6 +114,7 @@ export async function handlePlugin(args: PluginToolArgs): Promise<ToolResult> {
     if (name) pluginList = u.filterBySubstring(pluginList, name, ([nm]) => nm);
 
     const maxPlugins = name ? LIMITS.PLUGIN.LIST_MAX_FILTERED : LIMITS.PLUGIN.LIST_MAX_DEFAULT;
+    const build = validate ? readBuildNumber() : null;
     const pluginInfos = pluginList.slice(0, maxPlugins).map(([nm, plugin]) => {
         const patchCount = plugin.patches?.length ?? 0;
         const info: Record<string, unknown> = { name: nm, enabled: plugin.started ?? false };
@@ -130,12 +133,14 @@ export async function handlePlugin(args: PluginToolArgs): Promise<ToolResult> {
         }
 
         if (validate && plugin.patches) {
-            const ok = plugin.patches.filter(p => {
+            const relevant = plugin.patches.filter(p => patchInBuild(p, build));
+            const ok = relevant.filter(p => {
                 const m = u.canonFindMatcher(p.find);
                 return (m.isRegex ? u.findModuleIds(m.test, 2).length : u.countModuleMatches(m.canonical, 2)) === 1;
             }).length;
-            const broken = plugin.patches.length - ok;
-            info.health = { ok, broken, status: u.healthStatus(broken, plugin.patches.length) };
+            const broken = relevant.length - ok;
+            const outOfRange = plugin.patches.length - relevant.length;
+            info.health = { ok, broken, ...(outOfRange && { outOfRange }), status: u.healthStatus(broken, relevant.length) };
         }
 
         return info;
@@ -0,0 +1,79 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import intlMd from "file://../skills/discord-modding/references/intl.md";
+import patchRepairMd from "file://../skills/discord-modding/references/patch-repair.md";
+import workflowMd from "file://../skills/discord-modding/references/workflow.md";
+import skillMd from "file://../skills/discord-modding/SKILL.md";
+
+import { fillPrompt, markdownSection } from "../finds/skillPrompt";
+import { MCPPrompt, MCPPromptMessage } from "../types";
+
+interface PromptDef extends MCPPrompt {
+    intro: string;
+    sections: ReadonlyArray<readonly [markdown: string, heading: string]>;
+}
+
+const DEFS: PromptDef[] = [
+    {
+        name: "author-patch",
+        title: "Author a plugin feature",
+        description: "Walk the locate, dossier, finds, test, write, reload, verify loop for a new feature, preferring a managed plugin API over a patch",
+        arguments: [{ name: "feature", description: "What the plugin should do, in plain words", required: true }],
+        intro: "Implement this feature in a Vencord/Equicord plugin against the live Discord client: {feature}\n\nFirst decide whether a managed plugin API covers it. Only patch if none does, and then follow the loop below with the discord-mcp tools.",
+        sections: [
+            [skillMd, "Start here"],
+            [skillMd, "Quickstart"],
+            [workflowMd, "1. Locate"],
+            [workflowMd, "2. Understand"],
+            [workflowMd, "3. Generate durable anchors"],
+            [workflowMd, "4. Validate before writing"],
+            [workflowMd, "5. Apply and prove"],
+            [skillMd, "Rules"],
+        ],
+    },
+    {
+        name: "repair-broken-plugin",
+        title: "Repair a broken plugin",
+        description: "Diagnose a plugin whose patches stopped applying after a Discord update and regenerate its finds and matches",
+        arguments: [{ name: "pluginName", description: "Plugin whose patches broke", required: true }],
+        intro: "The plugin {pluginName} has patches that no longer apply on the current Discord build. Start with patch.plugin {\"pluginName\":\"{pluginName}\"}, then follow the repair loop below. Validate every fix with testPatch before editing the plugin source.",
+        sections: [
+            [patchRepairMd, "Standard repair loop"],
+            [workflowMd, "6. Repair breakage"],
+            [patchRepairMd, "Match failure kinds"],
+            [patchRepairMd, "patch.suggestFix"],
+            [patchRepairMd, "patch.verifyApplied"],
+        ],
+    },
+    {
+        name: "locate-ui-text",
+        title: "Locate the module behind UI text",
+        description: "Map a visible UI string to its intl key and the modules that render it",
+        arguments: [{ name: "text", description: "Text as it appears in the Discord UI", required: true }],
+        intro: "Find the webpack module that renders the UI text \"{text}\". UI copy is intl-hashed, so go through intl.search {\"query\":\"{text}\"} and intl.targets rather than searching for the literal.",
+        sections: [
+            [workflowMd, "1d. From visible UI copy"],
+            [intlMd, "Typical workflow"],
+            [intlMd, "Related tools"],
+        ],
+    },
+];
+
+const byName = new Map(DEFS.map(d => [d.name, d]));
+
+export const PROMPTS: MCPPrompt[] = DEFS.map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args }));
+
+export function getPrompt(name: string, args: Record<string, string> = {}): { description?: string; messages: MCPPromptMessage[] } | { error: true; message: string } {
+    const def = byName.get(name);
+    if (!def) return { error: true, message: `Unknown prompt: ${name}. Available: ${DEFS.map(d => d.name).join(", ")}` };
+    const missing = def.arguments?.find(a => a.required && !args[a.name]?.trim());
+    if (missing) return { error: true, message: `${name}: argument "${missing.name}" required` };
+
+    const body = def.sections.map(([md, heading]) => markdownSection(md, heading)).filter(Boolean).join("\n\n");
+    const text = `${fillPrompt(def.intro, args)}\n\n${body}`;
+    return { description: def.description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
@@ -4,10 +4,15 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { FiberNode, FoundComponent, HookInfo, ReactFiber, ReactToolArgs, ToolResult, TreeNode } from "../types";
+import { PluginNative } from "@utils/types";
+
+import { diffReactTrees, type TreeNode as FiberTreeNode } from "../finds/reactTreeDiff";
+import { FiberNode, FoundComponent, HookInfo, ReactFiber, ReactSnapshot, ReactToolArgs, ToolResult, TreeNode } from "../types";
 import { COMPONENT_FIBER_TAGS, CSS_CLASS_CAPTURE_RE, FIBER_TAGS, LIMITS } from "./constants";
 import * as u from "./utils";
 
+const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
+
 function getReactRoot(): ReactFiber | null {
     const container = document.getElementById("app-mount");
     return container && u.fiberFromKey(container, "__reactContainer$");
@@ -27,6 +32,74 @@ function walkFiberUp(fiber: ReactFiber | null, maxDepth: number, predicate: (f:
     return null;
 }
 
+function findComponentFiber(componentName: string): ReactFiber | null {
+    const rootFiber = getReactRoot();
+    if (!rootFiber) return null;
+    const lowerName = componentName.toLowerCase();
+    let partial: ReactFiber | null = null;
+    const queue: ReactFiber[] = [rootFiber];
+    for (let qHead = 0; qHead < queue.length && qHead < LIMITS.REACT.MAX_PROCESS; qHead++) {
+        const f = queue[qHead];
+        const { name } = u.getComponentInfo(f);
+        if (name && COMPONENT_FIBER_TAGS.has(f.tag)) {
+            if (name === componentName) return f;
+            if (!partial && name.toLowerCase().includes(lowerName)) partial = f;
+        }
+        if (f.child) queue.push(f.child);
+        if (f.sibling) queue.push(f.sibling);
+    }
+    return partial;
+}
+
+function captureSnapshot(root: ReactSnapshot["root"]): ReactSnapshot | { error: true; message: string } {
+    let rootFiber: ReactFiber | null;
+    if (root.componentName) {
+        rootFiber = findComponentFiber(root.componentName);
+        if (!rootFiber) return { error: true, message: `No mounted component matches "${root.componentName}"` };
+    } else if (root.selector) {
+        const el = findElement(root.selector);
+        if ("error" in el) return el;
+        const hostFiber = u.getFiber(el);
+        if (!hostFiber) return { error: true, message: `No fiber found for "${root.selector}"` };
+        rootFiber = walkFiberUp(hostFiber, LIMITS.REACT.PARENT_SEARCH_DEPTH, f => COMPONENT_FIBER_TAGS.has(f.tag) && !!u.getComponentInfo(f).name) ?? hostFiber;
+    } else {
+        rootFiber = getReactRoot();
+        if (!rootFiber) return { error: true, message: "React root not found" };
+    }
+
+    const budget = { nodes: LIMITS.REACT.SNAPSHOT_MAX_NODES, visits: LIMITS.REACT.MAX_PROCESS };
+    const snapshotProps = (f: ReactFiber) => Object.fromEntries(
+        Object.entries(f.memoizedProps ?? {})
+            .filter(([k, v]) => k !== "children" && v !== undefined)
+            .slice(0, LIMITS.REACT.SNAPSHOT_MAX_PROPS)
+            .map(([k, v]) => [k, u.serializeValue(v)])
+    );
+    const visit = (f: ReactFiber, depth: number): FiberTreeNode[] => {
+        if (budget.visits-- <= 0) return [];
+        const { name, key } = u.getComponentInfo(f);
+        const include = !!name && COMPONENT_FIBER_TAGS.has(f.tag) && budget.nodes > 0;
+        const children: FiberTreeNode[] = [];
+        if (!include || depth < root.depth) {
+            for (let c = f.child ?? null; c; c = c.sibling ?? null) children.push(...visit(c, include ? depth + 1 : depth));
+        }
+        if (!include) return children;
+        budget.nodes--;
+        return [{ name: name!, key, ...(root.includeProps && { props: snapshotProps(f) }), ...(children.length && { children }) }];
+    };
+
+    const rootName = u.getComponentInfo(rootFiber).name ?? "(root)";
+    const nodes = visit(rootFiber, 0);
+    const tree = nodes.length === 1 ? nodes[0] : nodes.length ? { name: rootName, children: nodes } : null;
+    return {
+        takenAt: Date.now(),
+        root,
+        rootName,
+        tree,
+        nodeCount: LIMITS.REACT.SNAPSHOT_MAX_NODES - budget.nodes,
+        truncated: budget.nodes <= 0 || budget.visits <= 0,
+    };
+}
+
 export async function handleReact(args: ReactToolArgs): Promise<ToolResult> {
     const { action, selector, componentName } = args;
     if (args.limit != null && args.limit < 1) return { error: true, message: "limit must be >= 1 (omit for default)" };
@@ -112,6 +185,60 @@ export async function handleReact(args: ReactToolArgs): Promise<ToolResult> {
         };
     }
 
+    if (action === "snapshot") {
+        const depth = u.clamp(args.depth, LIMITS.REACT.SNAPSHOT_DEFAULT_DEPTH, 1, LIMITS.REACT.MAX_DEPTH);
+        const snapshot = captureSnapshot({ selector, componentName, depth, includeProps: args.includeProps ?? true });
+        if ("error" in snapshot) return snapshot;
+
+        const id = await Native.storeReactSnapshot(JSON.stringify(snapshot));
+        if (id == null) return { error: true, message: "Snapshot too large to store, narrow it with selector, componentName, or depth" };
+
+        return {
+            id,
+            root: snapshot.rootName,
+            nodeCount: snapshot.nodeCount,
+            truncated: snapshot.truncated || undefined,
+            note: `Snapshots survive a renderer reload. Run react diff id=${id} after the change to compare against the live tree, or take a second snapshot and pass compareTo`,
+        };
+    }
+
+    if (action === "diff") {
+        if (args.id == null) return u.missingArg("id");
+        const loadSnapshot = async (id: number): Promise<ReactSnapshot | null> => {
+            const json = await Native.getReactSnapshot(id);
+            return json ? JSON.parse(json) : null;
+        };
+        const notFound = async (id: number) => ({ error: true, message: `Snapshot ${id} not found`, snapshots: await Native.listReactSnapshots() });
+
+        const before = await loadSnapshot(args.id);
+        if (!before) return notFound(args.id);
+
+        let after: ReactSnapshot;
+        if (args.compareTo != null) {
+            const stored = await loadSnapshot(args.compareTo);
+            if (!stored) return notFound(args.compareTo);
+            after = stored;
+        } else {
+            const live = captureSnapshot(before.root);
+            if ("error" in live) return live;
+            after = live;
+        }
+
+        const diff = diffReactTrees(before.tree, after.tree);
+        const total = diff.added.length + diff.removed.length + diff.changed.length;
+        return {
+            from: args.id,
+            to: args.compareTo ?? "live",
+            root: before.rootName,
+            counts: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length, unchanged: diff.unchangedCount },
+            added: diff.added.slice(0, limit),
+            removed: diff.removed.slice(0, limit),
+            changed: diff.changed.slice(0, limit),
+            truncated: before.truncated || after.truncated || undefined,
+            note: !total ? "No component or prop changes" : Math.max(diff.added.length, diff.removed.length, diff.changed.length) > limit ? `Lists limited to ${limit}` : undefined,
+        };
+    }
+
     if (!selector) return { error: true, message: `selector required for "${action}"` };
 
     const elResult = findElement(selector);
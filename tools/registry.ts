@@ -7,7 +7,9 @@
 import { PluginNative } from "@utils/types";
 
 import { resolveRefs } from "../finds/refPath";
-import { MCPTool } from "../types";
+import { createToolOwners, registrationProblem } from "../finds/toolRegistration";
+import { MCPTool, ToolContext } from "../types";
+import { plugins } from "../webpack";
 import { handleConsole } from "./console_tool";
 import { TOOLS as TOOL_DEFS } from "./definitions";
 import { handleDiscord } from "./discord_tool";
@@ -16,6 +18,7 @@ import { handleGraph } from "./graph_tool";
 import { handleIntercept } from "./intercept_tool";
 import { handleIntl } from "./intl_tool";
 import { handleModule } from "./module_tool";
+import { toolOutputSchema } from "./outputSchemas";
 import { handlePatch } from "./patch_tool";
 import { handlePlugin } from "./plugin_tool";
 import { handleReact } from "./react_tool";
@@ -24,30 +27,31 @@ import { handleSearch } from "./search_tool";
 import { handleStore } from "./store_tool";
 import { handleTestPatch } from "./test_patch_tool";
 import { handleTrace } from "./trace_tool";
-import { errMsg, mcpLogger } from "./utils";
+import { errMsg, mcpLogger, NO_TOOL_CONTEXT } from "./utils";
 
 const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
 
-type ToolHandler = (args: any) => Promise<unknown> | unknown;
+type ToolHandler = (args: any, ctx: ToolContext) => Promise<unknown> | unknown;
 
 interface ToolEntry {
     name: string;
     handler: ToolHandler;
     cacheTtlMs?: number;
     nonCacheableActions?: readonly string[];
+    mutatingActions?: readonly string[];
     neverCache?: boolean;
     readOnly?: boolean;
 }
 
 const ENTRIES: ToolEntry[] = [
-    { name: "module", handler: handleModule, cacheTtlMs: 30_000, nonCacheableActions: ["loadLazy", "watch", "watchGet", "watchStop", "diff", "annotate", "extract"] },
+    { name: "module", handler: handleModule, cacheTtlMs: 30_000, nonCacheableActions: ["loadLazy", "watch", "watchGet", "watchStop", "diff", "annotate", "extract", "buildDelta", "exportSnapshot"], mutatingActions: ["loadLazy"] },
     { name: "store", handler: handleStore, cacheTtlMs: 120_000, nonCacheableActions: ["call", "state", "snapshot", "links"] },
-    { name: "intl", handler: handleIntl, cacheTtlMs: 60_000, nonCacheableActions: ["recover", "clearCache"], readOnly: true },
+    { name: "intl", handler: handleIntl, cacheTtlMs: 60_000, nonCacheableActions: ["recover", "clearCache"], mutatingActions: ["recover", "clearCache"], readOnly: true },
     { name: "flux", handler: handleFlux, cacheTtlMs: 60_000, nonCacheableActions: ["dispatch"] },
-    { name: "patch", handler: handlePatch, readOnly: true },
-    { name: "react", handler: handleReact, readOnly: true },
+    { name: "patch", handler: handlePatch, nonCacheableActions: ["writeBack", "history", "migrate", "obsolete", "hotApply", "hotRevert"], mutatingActions: ["writeBack", "hotApply", "hotRevert"], readOnly: true },
+    { name: "react", handler: handleReact, nonCacheableActions: ["snapshot", "diff"], mutatingActions: ["snapshot"], readOnly: true },
     { name: "discord", handler: handleDiscord, nonCacheableActions: ["api"] },
-    { name: "plugin", handler: handlePlugin, cacheTtlMs: 30_000, nonCacheableActions: ["toggle", "enable", "disable", "setSetting", "list", "settings"] },
+    { name: "plugin", handler: handlePlugin, cacheTtlMs: 30_000, nonCacheableActions: ["toggle", "enable", "disable", "setSetting", "list", "settings"], mutatingActions: ["enable", "disable", "toggle", "setSetting"] },
     { name: "search", handler: handleSearch, cacheTtlMs: 30_000, readOnly: true },
     { name: "graph", handler: handleGraph, cacheTtlMs: 30_000, readOnly: true },
     { name: "resolve", handler: handleResolve, cacheTtlMs: 120_000, readOnly: true },
@@ -75,14 +79,14 @@ const ENTRIES: ToolEntry[] = [
     },
 ];
 
-const BATCHABLE: Readonly<Record<string, ReadonlySet<string> | "all">> = {
+const BATCHABLE: Record<string, ReadonlySet<string> | "all"> = {
     intl: new Set(["hash", "reverse", "search", "scan", "targets"]),
     search: "all",
     graph: "all",
     resolve: "all",
     testPatch: "all",
-    react: "all",
-    patch: "all",
+    react: new Set(["query", "styles", "tree", "path", "fiber", "props", "hooks", "contexts", "find", "state", "source", "diff"]),
+    patch: new Set(["unique", "analyze", "plugin", "lint", "finds", "conflicts", "overlaps", "diff", "broken", "suggestFix", "migrate", "obsolete", "verifyApplied"]),
     console: new Set(["recent", "stats"]),
     module: new Set(["find", "extract", "exports", "context", "diff", "functionAt", "structure", "stats", "suggest", "genFinds", "fingerprint", "annotate", "css", "explain"]),
     store: new Set(["find", "list", "state", "snapshot", "links"]),
@@ -98,7 +102,7 @@ interface BatchCall {
     args?: Record<string, unknown>;
 }
 
-async function handleBatch(args: { calls?: BatchCall[] }): Promise<unknown> {
+async function handleBatch(args: { calls?: BatchCall[] }, ctx: ToolContext = NO_TOOL_CONTEXT): Promise<unknown> {
     const all = Array.isArray(args.calls) ? args.calls : [];
     const calls = all.slice(0, MAX_BATCH_CALLS);
     if (!calls.length) return { error: true, message: `calls required: [{tool, args}] (1-${MAX_BATCH_CALLS})` };
@@ -110,6 +114,7 @@ async function handleBatch(args: { calls?: BatchCall[] }): Promise<unknown> {
 
     for (const call of calls) {
         const tool = call?.tool ?? "";
+        await ctx.progress(results.length, calls.length, tool);
         const callArgs = resolveRefs(call?.args ?? {}, priorResults);
         const action = typeof callArgs.action === "string" ? callArgs.action : undefined;
         const allowed = Object.hasOwn(BATCHABLE, tool) ? BATCHABLE[tool] : undefined;
@@ -122,8 +127,10 @@ async function handleBatch(args: { calls?: BatchCall[] }): Promise<unknown> {
             record({ tool, error: true, message: `Unknown tool: ${tool}` }, null);
             continue;
         }
+        const done = results.length;
+        const subCtx: ToolContext = { signal: ctx.signal, progress: () => ctx.progress(done, calls.length, tool) };
         try {
-            const result = await handler(callArgs);
+            const result = await handler(callArgs, subCtx);
             record({ tool, action: action ?? null, result }, result);
         } catch (e) {
             record({ tool, action: action ?? null, error: true, message: errMsg(e) }, null);
@@ -144,12 +151,60 @@ const byName = new Map(ENTRIES.map(e => [e.name, e]));
     for (const name of defNames) if (!byName.has(name)) mcpLogger.error(`registry: tool "${name}" has a definition but no handler`);
 }
 
-export const HANDLERS: ReadonlyMap<string, ToolHandler> = new Map(ENTRIES.map(e => [e.name, e.handler]));
+const handlers = new Map(ENTRIES.map(e => [e.name, e.handler]));
+export const HANDLERS: ReadonlyMap<string, ToolHandler> = handlers;
 
-export const TOOLS: MCPTool[] = TOOL_DEFS.map(def => {
-    const entry = byName.get(def.name);
-    return entry?.readOnly ? { ...def, annotations: { readOnlyHint: true } } : def;
-});
+const withAnnotations = (def: MCPTool, entry: ToolEntry | undefined): MCPTool =>
+    entry?.readOnly ? { ...def, annotations: { ...def.annotations, readOnlyHint: true } } : def;
+
+const withOutputSchema = (def: MCPTool): MCPTool => {
+    const outputSchema = toolOutputSchema(def.name);
+    return outputSchema ? { ...def, outputSchema } : def;
+};
+
+export const TOOLS: MCPTool[] = TOOL_DEFS.map(def => withAnnotations(withOutputSchema(def), byName.get(def.name)));
+
+export interface McpToolRegistration {
+    plugin: string;
+    definition: MCPTool;
+    handler: ToolHandler;
+    readOnly?: boolean;
+    cacheTtlMs?: number;
+    batchable?: boolean | readonly string[];
+}
+
+const toolOwners = createToolOwners(name => unregisterMcpTool(name));
+
+function notifyToolsChanged(): void {
+    void Native.sendNotification({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+}
+
+export function registerMcpTool(reg: McpToolRegistration): () => boolean {
+    const problem = registrationProblem(reg, { isPlugin: name => !!plugins[name], isTaken: name => byName.has(name) });
+    if (problem) throw new Error(`registerMcpTool: ${problem}`);
+
+    const { name } = reg.definition;
+    const entry: ToolEntry = { name, handler: reg.handler, cacheTtlMs: reg.cacheTtlMs, readOnly: reg.readOnly, neverCache: !(reg.readOnly && reg.cacheTtlMs != null) };
+    byName.set(name, entry);
+    handlers.set(name, reg.handler);
+    TOOLS.push(withAnnotations(reg.definition, entry));
+    if (reg.batchable) BATCHABLE[name] = reg.batchable === true ? "all" : new Set(reg.batchable);
+    toolOwners.add(name, reg.plugin, plugins[reg.plugin]);
+    mcpLogger.info(`${reg.plugin} registered tool "${name}"`);
+    notifyToolsChanged();
+    return () => unregisterMcpTool(name);
+}
+
+export function unregisterMcpTool(name: string): boolean {
+    if (!toolOwners.remove(name)) return false;
+    byName.delete(name);
+    handlers.delete(name);
+    delete BATCHABLE[name];
+    const index = TOOLS.findIndex(t => t.name === name);
+    if (index >= 0) TOOLS.splice(index, 1);
+    notifyToolsChanged();
+    return true;
+}
 
 const DEFAULT_CACHE_TTL = 10_000;
 
@@ -157,6 +212,17 @@ export function cacheTtlOf(tool: string): number {
     return byName.get(tool)?.cacheTtlMs ?? DEFAULT_CACHE_TTL;
 }
 
+const isMutatingAction = (entry: ToolEntry | undefined, action: string | undefined) => !!action && !!entry?.mutatingActions?.includes(action);
+
+export function isMutatingCall(tool: string, action: string | undefined): boolean {
+    return tool === "reloadDiscord" || isMutatingAction(byName.get(tool), action);
+}
+
+export function isReadOnlyCall(tool: string, action: string | undefined): boolean {
+    const entry = byName.get(tool);
+    return entry?.readOnly === true && !isMutatingAction(entry, action);
+}
+
 export function isCacheable(tool: string, action: string | undefined): boolean {
     const entry = byName.get(tool);
     if (!entry || entry.neverCache) return false;
@@ -21,7 +21,7 @@ export async function handleResolve(args: ResolveToolArgs): Promise<ToolResult>
         const key = u.getIntlKeyFromHash(landmark);
         const bracket = `.t["${landmark}"]`;
         const dotRe = new RegExp(String.raw`\.t\.${escapeRegExp(landmark)}(?![A-Za-z0-9+/])`);
-        const modules = u.findModuleIds(src => src.includes(bracket) || dotRe.test(src), limit);
+        const modules = u.findModuleIds(src => src.includes(bracket) || dotRe.test(src), limit, [landmark]);
         if (key || modules.length) return { landmark, type: "intlHash", intlKey: key, find: u.intlFind(landmark, key), moduleCount: modules.length, modules: decorate(modules) };
     }
 
@@ -43,8 +43,8 @@ export async function handleResolve(args: ResolveToolArgs): Promise<ToolResult>
     if (/Store$/.test(landmark)) {
         const resolved = resolveStore(landmark);
         if (resolved) {
-            const defining = u.findModuleIds(src => src.includes(`displayName:"${resolved.name}"`) || src.includes(`displayName="${resolved.name}"`), limit);
-            const referencing = defining.length ? [] : u.findModuleIds(src => src.includes(`"${resolved.name}"`), limit);
+            const defining = u.findModuleIds(src => src.includes(`displayName:"${resolved.name}"`) || src.includes(`displayName="${resolved.name}"`), limit, [`"${resolved.name}"`]);
+            const referencing = defining.length ? [] : u.findModuleIds(src => src.includes(`"${resolved.name}"`), limit, [`"${resolved.name}"`]);
             return { landmark, type: "store", store: resolved.name, definingModules: decorate(defining), referencingModules: referencing.length ? decorate(referencing) : undefined };
         }
     }
@@ -53,15 +53,15 @@ export async function handleResolve(args: ResolveToolArgs): Promise<ToolResult>
         const result: Record<string, unknown> = { landmark, type: "symbol" };
         let hit = false;
         const hash = u.runtimeHashMessageKey(landmark);
-        const intlModules = u.findModuleIds(src => src.includes(`.t.${hash}`) || src.includes(`.t["${hash}"]`), 5);
+        const intlModules = u.findModuleIds(src => src.includes(`.t.${hash}`) || src.includes(`.t["${hash}"]`), 5, [hash]);
         if (intlModules.length) { result.asIntlKey = { hash, modules: decorate(intlModules) }; hit = true; }
-        const producers = u.findModuleIds(src => src.includes(`type:"${landmark}"`), 5);
+        const producers = u.findModuleIds(src => src.includes(`type:"${landmark}"`), 5, [`type:"${landmark}"`]);
         if (producers.length) { result.asActionType = { producers: decorate(producers) }; hit = true; }
         const enumMods = findAll(m => !!m && typeof m === "object" && u.safeCall(() => (m as Record<string, unknown>)[landmark] !== undefined, false));
         if (enumMods.length) { result.asEnumKey = { enumObjectCount: enumMods.length }; hit = true; }
         if (hit) return result;
     }
 
-    const modules = u.findModuleIds(src => src.includes(landmark), limit);
+    const modules = u.findModuleIds(src => src.includes(landmark), limit, [landmark]);
     return { landmark, type: "literal", moduleCount: modules.length, modules: decorate(modules) };
 }
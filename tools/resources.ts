@@ -0,0 +1,140 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { parseResourceUri, type ResourceRef, resourceUri } from "../finds/resourceUri";
+import { MCPResource, MCPResourceContents, MCPResourceTemplate } from "../types";
+import { resolveStore } from "../webpack";
+import { LIMITS } from "./constants";
+import { handleIntl } from "./intl_tool";
+import { handleStore } from "./store_tool";
+import * as u from "./utils";
+
+type ResourceError = { error: true; message: string };
+
+export const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+    { uriTemplate: "discord://module/{id}", name: "module", title: "Module source", description: "Webpack module source with Vencord patches applied", mimeType: "text/javascript" },
+    { uriTemplate: "discord://module/{id}/original", name: "module-original", title: "Original module source", description: "Webpack module source as Discord shipped it", mimeType: "text/javascript" },
+    { uriTemplate: "discord://store/{name}", name: "store", title: "Store state", description: "Getter snapshot of a Flux store. Subscribable: updates on store change", mimeType: "application/json" },
+    { uriTemplate: "discord://intl/{key}", name: "intl", title: "Intl message", description: "Intl message by key or 6-char hash (percent-encode / and +)", mimeType: "application/json" },
+];
+
+type NotifySession = (sessionId: string, uri: string) => Promise<boolean>;
+
+interface Subscription {
+    stop: () => void;
+    sessions: Set<string>;
+}
+
+const subscriptions = new Map<string, Subscription>();
+
+export function listResources(): MCPResource[] {
+    return u.getAllStoreNames().slice(0, LIMITS.RESOURCES.LIST_SLICE).map(name => ({
+        uri: resourceUri({ kind: "store", name }),
+        name,
+        title: `${name} state`,
+        mimeType: "application/json",
+    }));
+}
+
+async function readIntl(key: string): Promise<unknown> {
+    const exists = (r: unknown) => u.isObject(r) && (r as { exists?: boolean }).exists === true;
+    const byKey = await handleIntl({ action: "hash", key });
+    if (exists(byKey)) return byKey;
+    const byHash = await handleIntl({ action: "reverse", hash: key });
+    return exists(byHash) ? byHash : null;
+}
+
+async function readRef(ref: ResourceRef): Promise<{ mimeType: string; text: string } | ResourceError> {
+    switch (ref.kind) {
+        case "module": {
+            try {
+                return { mimeType: "text/javascript", text: u.extractModule(ref.id, !ref.original) };
+            } catch (e) {
+                return { error: true, message: u.errMsg(e) };
+            }
+        }
+        case "store": {
+            const result = await handleStore({ action: "snapshot", name: ref.name });
+            if (u.isObject(result) && result.error) return { error: true, message: String(result.message) };
+            return { mimeType: "application/json", text: u.serializeResult(result) };
+        }
+        case "intl": {
+            const result = await readIntl(ref.key);
+            if (!result) return { error: true, message: `Intl message ${ref.key} not found` };
+            return { mimeType: "application/json", text: u.serializeResult(result) };
+        }
+    }
+}
+
+export async function readResource(uri: string): Promise<{ contents: MCPResourceContents[] } | ResourceError> {
+    const ref = parseResourceUri(uri);
+    if (!ref) return { error: true, message: `Unknown resource: ${uri}` };
+    const read = await readRef(ref);
+    if ("error" in read) return read;
+    return { contents: [{ uri, ...read }] };
+}
+
+function sessionSubscriptionCount(sessionId: string): number {
+    let n = 0;
+    for (const sub of subscriptions.values()) if (sub.sessions.has(sessionId)) n++;
+    return n;
+}
+
+function dropSession(sessionId: string): void {
+    for (const uri of [...subscriptions.keys()]) unsubscribeResource(uri, sessionId);
+}
+
+export function subscribeResource(uri: string, sessionId: string, notify: NotifySession): { ok: true } | ResourceError {
+    const ref = parseResourceUri(uri);
+    if (!ref) return { error: true, message: `Unknown resource: ${uri}` };
+    if (ref.kind !== "store") return { error: true, message: "Only store resources change at runtime; module and intl resources are static" };
+    const existing = subscriptions.get(uri);
+    if (existing?.sessions.has(sessionId)) return { ok: true };
+    if (sessionSubscriptionCount(sessionId) >= LIMITS.RESOURCES.MAX_SUBSCRIPTIONS) return { error: true, message: `Subscription limit reached (${LIMITS.RESOURCES.MAX_SUBSCRIPTIONS})` };
+    if (existing) {
+        existing.sessions.add(sessionId);
+        return { ok: true };
+    }
+
+    const store = resolveStore(ref.name)?.store as { addChangeListener?(cb: () => void): void; removeChangeListener?(cb: () => void): void } | undefined;
+    if (!store?.addChangeListener) return { error: true, message: `Store "${ref.name}" not found` };
+
+    const sessions = new Set([sessionId]);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+        timer = null;
+        for (const target of sessions) {
+            void notify(target, uri).then(delivered => { if (!delivered) dropSession(target); });
+        }
+    };
+    const listener = () => {
+        timer ??= setTimeout(flush, LIMITS.RESOURCES.UPDATE_THROTTLE_MS);
+    };
+    store.addChangeListener(listener);
+    subscriptions.set(uri, {
+        sessions,
+        stop: () => {
+            if (timer) clearTimeout(timer);
+            store.removeChangeListener?.(listener);
+        },
+    });
+    return { ok: true };
+}
+
+export function unsubscribeResource(uri: string, sessionId: string): boolean {
+    const sub = subscriptions.get(uri);
+    if (!sub?.sessions.delete(sessionId)) return false;
+    if (!sub.sessions.size) {
+        sub.stop();
+        subscriptions.delete(uri);
+    }
+    return true;
+}
+
+export function cleanupAllResourceSubscriptions(): void {
+    for (const sub of subscriptions.values()) sub.stop();
+    subscriptions.clear();
+}
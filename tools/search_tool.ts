@@ -6,12 +6,18 @@
 
 import { canonicalizeMatch } from "@utils/patches";
 
-import { SearchToolArgs, ToolResult } from "../types";
-import { search } from "../webpack";
+import { SearchToolArgs, ToolContext, ToolResult } from "../types";
 import { CONTEXT, LIMITS } from "./constants";
+import { paginate } from "./pagination";
 import * as u from "./utils";
 
-export async function handleSearch(args: SearchToolArgs): Promise<ToolResult> {
+async function matchingIds(ctx: ToolContext, test: (source: string) => boolean, contains: readonly string[] = []): Promise<string[]> {
+    const ids: string[] = [];
+    await u.scanModules(ctx, (source, id) => { if (test(source)) ids.push(id); }, contains);
+    return ids;
+}
+
+export async function handleSearch(args: SearchToolArgs, ctx: ToolContext = u.NO_TOOL_CONTEXT): Promise<ToolResult> {
     const { pattern, patterns } = args;
     const limit = args.limit ?? LIMITS.SEARCH.DEFAULT_LIMIT;
     const forceRegex = args.regex ?? false;
@@ -22,20 +28,15 @@ export async function handleSearch(args: SearchToolArgs): Promise<ToolResult> {
         if (patterns.length > LIMITS.SEARCH.MAX_PATTERNS) return { error: true, message: `patterns must have at most ${LIMITS.SEARCH.MAX_PATTERNS} entries` };
 
         const canonPatterns = patterns.map(p => canonicalizeMatch(p));
-        const matches: Array<{ id: string; hint?: string | null; matchedPatterns: number; snippets: string[] }> = [];
-        let count = 0;
-
-        for (const moduleId of u.getModuleIds()) {
-            const source = u.getModuleSource(moduleId);
-            if (!canonPatterns.every(p => source.includes(p))) continue;
-            count++;
-            if (matches.length < limit) {
-                const snippets = canonPatterns.map(p => u.snippet(source, source.indexOf(p), p.length, LIMITS.SEARCH.CANON_SNIPPET_BEFORE, LIMITS.SEARCH.CANON_SNIPPET_AFTER));
-                matches.push({ id: moduleId, hint: u.getModuleHint(moduleId), matchedPatterns: canonPatterns.length, snippets });
-            }
-        }
+        const paged = await paginate("search", args, limit, () => matchingIds(ctx, source => canonPatterns.every(p => source.includes(p)), canonPatterns));
+        if ("error" in paged) return paged;
+        const matches = paged.page.map(id => {
+            const source = u.getModuleSource(id);
+            const snippets = canonPatterns.map(p => u.snippet(source, source.indexOf(p), p.length, LIMITS.SEARCH.CANON_SNIPPET_BEFORE, LIMITS.SEARCH.CANON_SNIPPET_AFTER));
+            return { id, hint: u.getModuleHint(id), matchedPatterns: canonPatterns.length, snippets };
+        });
 
-        return { multiPattern: true, patterns, count, matches };
+        return { multiPattern: true, patterns, count: paged.total, matches, nextCursor: paged.nextCursor };
     }
 
     if (!pattern) return u.missingArg("pattern");
@@ -53,33 +54,30 @@ export async function handleSearch(args: SearchToolArgs): Promise<ToolResult> {
         const searchRegex = canonicalizeMatch(regex);
 
         const indexRegex = u.stripGlobal(searchRegex);
-        const matches: Array<{ id: string; hint?: string | null; match: string; context: string }> = [];
-        const ids = Object.keys(search(searchRegex));
-
-        for (const id of ids) {
-            if (matches.length >= limit) break;
-
+        const paged = await paginate("search", args, limit, () => matchingIds(ctx, source => source.match(indexRegex)?.index !== undefined));
+        if ("error" in paged) return paged;
+        const matches = paged.page.map(id => {
             const source = u.getModuleSource(id);
             const match = source.match(indexRegex);
+            const text = match?.[0] ?? "";
+            return { id, hint: u.getModuleHint(id), match: text.slice(0, LIMITS.SEARCH.MATCH_PREVIEW), context: u.snippet(source, match?.index ?? -1, text.length, CONTEXT.SEARCH_SNIPPET, CONTEXT.SEARCH_SNIPPET) };
+        });
 
-            if (match?.index !== undefined) {
-                matches.push({ id, hint: u.getModuleHint(id), match: match[0].slice(0, LIMITS.SEARCH.MATCH_PREVIEW), context: u.snippet(source, match.index, match[0].length, CONTEXT.SEARCH_SNIPPET, CONTEXT.SEARCH_SNIPPET) });
-            }
-        }
-
-        return { count: ids.length, pattern, matches };
+        return { count: paged.total, pattern, matches, nextCursor: paged.nextCursor };
     }
 
     const canonicalized = canonicalizeMatch(pattern);
-    const keys = Object.keys(search(pattern));
-    const ids = keys.slice(0, limit);
+    const paged = await paginate("search", args, limit, () => matchingIds(ctx, source => source.includes(canonicalized), [canonicalized]));
+    if ("error" in paged) return paged;
+    const ids = paged.page;
 
     return {
-        count: keys.length,
+        count: paged.total,
         ids,
         preview: ids.map(id => {
             const source = u.getModuleSource(id);
             return { id, hint: u.getModuleHint(id), snippet: u.snippet(source, source.indexOf(canonicalized), canonicalized.length, CONTEXT.SEARCH_SNIPPET, CONTEXT.SEARCH_SNIPPET) };
         }),
+        nextCursor: paged.nextCursor,
     };
 }
@@ -0,0 +1,76 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PluginNative } from "@utils/types";
+
+import { isBuildKey } from "../finds/fingerprintPersist";
+import { type ModuleSnapshot, parseSnapshot, serializeSnapshot } from "../finds/moduleSnapshot";
+import { createTimedSlot } from "../finds/timedSlot";
+import { ToolContext, ToolError, ToolResult } from "../types";
+import { CACHE_TTL, LIMITS } from "./constants";
+import { readBuildInfo } from "./discord_tool";
+import * as u from "./utils";
+
+const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
+
+const storedSnapshot = createTimedSlot<string, ModuleSnapshot>({ ttlMs: CACHE_TTL.STORED_SNAPSHOT_MS });
+
+export async function loadStoredSnapshot(build: string | undefined): Promise<ModuleSnapshot | ToolError> {
+    const current = readBuildInfo().versionHash;
+    const storedBuilds = (await Native.listSnapshotBuilds()).map(b => b.build);
+    const from = build ?? storedBuilds.find(b => b !== current);
+    if (!from) return { error: true, message: "No snapshot of a previous build stored. Run module.exportSnapshot before Discord updates", suggestions: storedBuilds };
+    if (!isBuildKey(from)) return { error: true, message: `Invalid build: ${from}`, suggestions: storedBuilds };
+    const cached = storedSnapshot.get(from);
+    if (cached) return cached;
+
+    const text = await Native.readSnapshot(from);
+    const snapshot = text ? parseSnapshot(text) : null;
+    if (!snapshot) return { error: true, message: `No readable snapshot stored for build ${from}`, suggestions: storedBuilds };
+    return storedSnapshot.set(from, snapshot);
+}
+
+export async function handleExportSnapshot(ctx: ToolContext = u.NO_TOOL_CONTEXT): Promise<ToolResult> {
+    const buildInfo = readBuildInfo();
+    const build = buildInfo.versionHash;
+    if (!isBuildKey(build)) return { error: true, message: "Current build has no versionHash (GLOBAL_ENV.VERSION_HASH missing)" };
+
+    const ids = u.getModuleIds();
+    const sources = new Map<string, string>();
+    const hints = new Map<string, string>();
+    for (let i = 0; i < ids.length; i++) {
+        if (i > 0 && i % LIMITS.MODULE.SNAPSHOT_CHUNK === 0) await ctx.progress(i, ids.length, "modules read");
+        const source = u.getModuleSource(ids[i]);
+        if (!source) continue;
+        sources.set(ids[i], source);
+        const hint = u.safeCall(() => u.getModuleHint(ids[i]), null);
+        if (hint) hints.set(ids[i], hint);
+    }
+
+    const intlMessages = new Map<string, string>();
+    for (const [hash, arr] of Object.entries(u.getLocaleMessages() ?? {})) {
+        const text = u.extractIntlText(arr);
+        if (text) intlMessages.set(hash, text);
+    }
+    const intlKeys = u.buildIntlHashToKeyMap();
+
+    await ctx.progress(ids.length, ids.length, "writing archive");
+    const info = Object.fromEntries(Object.entries(buildInfo).filter(([, v]) => v === null || ["string", "number", "boolean"].includes(typeof v))) as Record<string, string | number | boolean | null>;
+    const json = serializeSnapshot({ build, buildInfo: info, sources, hints, imports: u.buildDependencyGraph().forward, intlKeys, intlMessages });
+    const { ok, path, bytes } = await Native.writeSnapshot(build, json);
+    if (!ok) return { error: true, message: `Failed to write snapshot for build ${build} (${json.length} chars)` };
+
+    return {
+        build,
+        path,
+        bytes,
+        modules: sources.size,
+        intlKeys: intlKeys.size,
+        intlMessages: intlMessages.size,
+        storedBuilds: (await Native.listSnapshotBuilds()).map(b => b.build),
+        note: "Only loaded factories are included, so run module.loadLazy first for a complete archive. Serve it without Discord via offline/server.ts",
+    };
+}
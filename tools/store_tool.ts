@@ -7,6 +7,7 @@
 import { StoreToolArgs, ToolResult } from "../types";
 import { resolveStore } from "../webpack";
 import { LIMITS } from "./constants";
+import { paginate } from "./pagination";
 import * as u from "./utils";
 
 function capValue(v: unknown, max: number = LIMITS.STORE.SERIALIZE_CALL): unknown {
@@ -21,13 +22,12 @@ export async function handleStore(args: StoreToolArgs): Promise<ToolResult> {
     const { action, name: storeName, method, args: methodArgs } = args;
 
     if (action === "list" || (!action && !storeName)) {
-        const all = u.getAllStoreNames();
-        const filtered = storeName ? u.filterBySubstring(all, storeName, s => s) : all;
-        return {
-            count: filtered.length,
-            stores: filtered.slice(0, LIMITS.STORE.LIST_SLICE),
-            note: filtered.length > LIMITS.STORE.LIST_SLICE ? "Use name to narrow further" : undefined,
-        };
+        const paged = await paginate("store", args, LIMITS.STORE.LIST_SLICE, () => {
+            const all = u.getAllStoreNames();
+            return storeName ? u.filterBySubstring(all, storeName, s => s) : all;
+        });
+        if ("error" in paged) return paged;
+        return { count: paged.total, offset: paged.offset, stores: paged.page, nextCursor: paged.nextCursor };
     }
 
     if (!storeName) return u.missingArg("name");
@@ -0,0 +1,113 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PluginNative } from "@utils/types";
+
+import { appendRun, diffRuns, findRegressions, parseHistory, runRef, serializeHistory, type SweepPatch, type SweepRun } from "../finds/sweepHistory";
+import { PatchToolArgs, ToolResult } from "../types";
+import { plugins } from "../webpack";
+import { currentBuild } from "./build_delta_tool";
+import { recentConsole } from "./console_tool";
+import { LIMITS } from "./constants";
+import { readBuildNumber } from "./discord_tool";
+import { handlePatch } from "./patch_tool";
+import * as u from "./utils";
+
+const S = LIMITS.SWEEP;
+const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
+
+let history: SweepRun[] | null = null;
+let sweepTimer: ReturnType<typeof setTimeout> | null = null;
+let cancelScheduled: (() => void) | null = null;
+let running: Promise<SweepRun> | null = null;
+
+async function loadHistory(): Promise<SweepRun[]> {
+    if (history) return history;
+    const text = await Native.readSweepHistory();
+    history = (text && parseHistory(text)) || [];
+    return history;
+}
+
+async function sweep(trigger: SweepRun["trigger"]): Promise<SweepRun> {
+    const patches: SweepPatch[] = [];
+    for (const [name, plugin] of Object.entries(plugins)) {
+        if (!plugin.started || !plugin.patches?.length) continue;
+        const result = await handlePatch({ action: "verifyApplied", pluginName: name }) as { patches?: Array<{ index: number; find: string; status: string }> };
+        for (const p of result.patches ?? []) patches.push({ plugin: name, index: p.index, find: p.find.slice(0, S.FIND_SLICE), status: p.status });
+        await new Promise(r => setTimeout(r, 0));
+    }
+    const broken = await handlePatch({ action: "broken" }) as { totalBroken?: number };
+    const run: SweepRun = {
+        at: Date.now(),
+        build: currentBuild(),
+        buildNumber: readBuildNumber(),
+        trigger,
+        patches,
+        broken: broken.totalBroken ?? 0,
+        consoleErrors: recentConsole("error", S.CONSOLE_WINDOW_MS, S.CONSOLE_ERROR_LIMIT).length,
+    };
+    history = appendRun(await loadHistory(), run, S.HISTORY_MAX_RUNS);
+    await Native.writeSweepHistory(serializeHistory(history));
+    return run;
+}
+
+export function runRegressionSweep(trigger: SweepRun["trigger"]): Promise<SweepRun> {
+    running ??= sweep(trigger).finally(() => { running = null; });
+    return running;
+}
+
+export function scheduleRegressionSweep(trigger: SweepRun["trigger"]): Promise<SweepRun | null> {
+    cancelRegressionSweep();
+    return new Promise((resolve, reject) => {
+        cancelScheduled = () => resolve(null);
+        sweepTimer = setTimeout(() => {
+            sweepTimer = cancelScheduled = null;
+            runRegressionSweep(trigger).then(resolve, reject);
+        }, S.SETTLE_MS);
+    });
+}
+
+export function cancelRegressionSweep(): void {
+    if (sweepTimer) clearTimeout(sweepTimer);
+    cancelScheduled?.();
+    sweepTimer = cancelScheduled = null;
+}
+
+function summarize(run: SweepRun) {
+    return {
+        ...runRef(run),
+        trigger: run.trigger,
+        patchCount: run.patches.length,
+        applied: run.patches.filter(p => p.status === "APPLIED").length,
+        broken: run.broken,
+        consoleErrors: run.consoleErrors,
+    };
+}
+
+export async function handleSweepHistory(args: PatchToolArgs): Promise<ToolResult> {
+    if (args.refresh) await runRegressionSweep("manual");
+    const runs = await loadHistory();
+    if (!runs.length) return { runs: 0, note: "No sweep recorded yet. One runs shortly after each launch or reload, or pass refresh: true to run one now" };
+
+    const filter = args.pluginName?.toLowerCase();
+    const ofPlugin = <T extends { plugin: string }>(items: T[]) => filter ? items.filter(i => i.plugin.toLowerCase().includes(filter)) : items;
+    const max = u.clamp(args.limit, S.DEFAULT_TRANSITIONS, 1, S.HISTORY_MAX_RUNS);
+
+    const transitions: Array<Record<string, unknown>> = [];
+    for (let i = runs.length - 1; i > 0 && transitions.length < max; i--) {
+        const changes = ofPlugin(diffRuns(runs[i - 1], runs[i]));
+        if (!changes.length) continue;
+        transitions.push({ from: runRef(runs[i - 1]), to: runRef(runs[i]), buildChanged: runs[i - 1].build !== runs[i].build, changes });
+    }
+
+    return {
+        runs: runs.length,
+        latest: summarize(runs[runs.length - 1]),
+        regressions: ofPlugin(findRegressions(runs)),
+        transitions,
+        note: "regressions lists patches not APPLIED in the latest run, with the run where they stopped applying (since) and the last run where they did (lastGood). A buildChanged transition points at a Discord update. FIND_DEAD can also mean a lazy chunk was not loaded yet when the sweep ran",
+    };
+}
@@ -6,6 +6,10 @@
 
 import { canonicalizeMatch } from "@utils/patches";
 
+import { scoreAnchorConfidence } from "../finds/anchorConfidence";
+import { generateFinds } from "../finds/genFinds";
+import { emitPatchCode as emitCheckedPatchCode, type EmitOptions, matchPatch, type MatchOutcome, patchVerdict, UNSAFE_PATTERN_RE } from "../finds/patchCheck";
+import { type EditFailure, locateEdit, locateInsertion, synthesizePatch } from "../finds/patchSynth";
 import { AnchorInfo, FindModuleMatch, MatchDiagnostic, RegexWarning, TestPatchToolArgs, ToolResult } from "../types";
 import {
     ANCHOR_TYPE_ORDER,
@@ -35,13 +39,11 @@ function findModules(locate: (src: string) => number, limit: number): FindModule
     return matches;
 }
 
-const CATASTROPHIC_BACKTRACKING_RE = /\([^)]*[*+][^)]*\)[*+]/;
-
 function analyzeRegex(pattern: string): RegexWarning[] {
     const warnings: RegexWarning[] = [];
     const loc = (m: RegExpExecArray, pad = 15) => pattern.substring(Math.max(0, m.index - pad), m.index + m[0].length + pad);
 
-    const nested = CATASTROPHIC_BACKTRACKING_RE.exec(pattern);
+    const nested = UNSAFE_PATTERN_RE.exec(pattern);
     if (nested) {
         warnings.push({
             rule: "catastrophicBacktracking",
@@ -161,9 +163,9 @@ function validateReplace(replaceStr: string, captureCount: number, matchSource =
     return warnings;
 }
 
-function checkSyntaxAfterReplace(source: string, regex: RegExp, replaceStr: string): RegexWarning[] {
+function checkSyntaxAfterReplace(replaced: string): RegexWarning[] {
     try {
-        const err = u.checkJsSyntax(source.replace(regex, replaceStr));
+        const err = u.checkJsSyntax(replaced);
         return err ? [{ rule: "syntaxError", severity: "error", detail: err.slice(0, LIMITS.TEST_PATCH.SYNTAX_ERROR_SLICE) }] : [];
     } catch { return []; }
 }
@@ -278,7 +280,12 @@ function discoverAnchors(source: string, centerIdx: number, radius: number): Anc
     return anchors.slice(0, CONTEXT.MAX_ANCHORS);
 }
 
+export function emitPatchCode(find: string, match: string, replace: string, opts: EmitOptions = {}) {
+    return emitCheckedPatchCode(find, match, replace, opts, u.buildPatchRegex);
+}
+
 export async function handleTestPatch(args: TestPatchToolArgs): Promise<ToolResult> {
+    if (args.action === "synthesize") return handleSynthesize(args);
     const { find: rawFind, match: matchPattern, replace: replaceStr } = args;
 
     if (!rawFind || rawFind.length < 3) return { error: true, message: "find required (min 3 chars)" };
@@ -311,55 +318,33 @@ export async function handleTestPatch(args: TestPatchToolArgs): Promise<ToolResu
     const regexWarnings = u.parseRegex(matchPattern) ? analyzeRegex(matchPattern) : [];
     const unsafePattern = regexWarnings.some(w => w.rule === "catastrophicBacktracking");
 
-    let matchWorks = false;
-    let matchedText: string | null = null;
-    let captureGroups = 0;
-    let matchIndex: number | null = null;
-    let matchContext: string | null = null;
-    let replacementPreview: string | null = null;
-    let replaceNoop = false;
+    let outcome: MatchOutcome | null = null;
     const matchWarnings: RegexWarning[] = [];
     let replaceWarnings: RegexWarning[] = [];
     let diagnostic: MatchDiagnostic | null = null;
 
     if (targetModule && !unsafePattern) {
-        const firstHit = targetModule.match(u.stripGlobal(regex));
-        if (firstHit && firstHit.index !== undefined) {
-            matchWorks = true;
-            matchIndex = firstHit.index;
-            matchedText = firstHit[0].slice(0, CONTEXT.MATCHED_TEXT_MAX);
-            captureGroups = firstHit.length - 1;
-            matchContext = u.snippet(targetModule, matchIndex, firstHit[0].length, CONTEXT.MATCH_CONTEXT_PAD, CONTEXT.MATCH_CONTEXT_PAD);
-            if (matchedText === "") {
+        outcome = matchPatch(targetModule, regex, replaceStr, CONTEXT);
+        if (outcome.matchWorks) {
+            if (outcome.matchedText === "") {
                 matchWarnings.push({ rule: "zeroWidthMatch", severity: "warning", detail: "Zero-width match: the replacement is inserted, not substituted. Confirm this is an intentional lookaround anchor, not an unanchored or empty pattern." });
             }
-            if (replaceStr != null) {
-                replaceWarnings = validateReplace(replaceStr, captureGroups, regex.source);
-                const replacedSource = targetModule.replace(regex, replaceStr);
-                replaceNoop = replacedSource === targetModule;
-                if (replaceNoop) {
+            if (replaceStr != null && outcome.replaced != null) {
+                replaceWarnings = validateReplace(replaceStr, outcome.captureGroups, regex.source);
+                if (outcome.replaceNoop) {
                     replaceWarnings.push({ rule: "replaceNoop", severity: "error", detail: "Replacement did not change the source." });
                 }
-                replacementPreview = u.snippet(replacedSource, matchIndex, replaceStr.length || 50, CONTEXT.REPLACEMENT_BEFORE, CONTEXT.REPLACEMENT_AFTER);
-                replaceWarnings.push(...checkSyntaxAfterReplace(targetModule, regex, replaceStr));
+                replaceWarnings.push(...checkSyntaxAfterReplace(outcome.replaced));
             }
         } else {
             diagnostic = diagnoseMatchFailure(targetModule, regex);
         }
     }
 
+    const matchWorks = outcome?.matchWorks ?? false;
     const allWarnings = [...findWarnings, ...regexWarnings, ...matchWarnings, ...replaceWarnings];
     const score = computeScore(allWarnings, findUnique, matchWorks);
-
-    let verdict: string;
-    if (moduleMatches.length === 0) verdict = "FIND_NO_MATCH";
-    else if (!findUnique) verdict = "FIND_NOT_UNIQUE";
-    else if (unsafePattern) verdict = "UNSAFE_PATTERN";
-    else if (!matchWorks) verdict = "MATCH_FAILED";
-    else if (replaceNoop) verdict = "REPLACE_NOOP";
-    else if (allWarnings.some(w => w.severity === "error")) verdict = "PASS_WITH_ERRORS";
-    else if (allWarnings.some(w => w.severity === "warning")) verdict = "PASS_WITH_WARNINGS";
-    else verdict = "PASS";
+    const verdict = patchVerdict({ findModuleCount: moduleMatches.length, unsafePattern, matchWorks, replaceNoop: outcome?.replaceNoop ?? false, severities: allWarnings.map(w => w.severity) });
 
     let findContext: string | undefined;
     let nearbyAnchors: AnchorInfo[] | undefined;
@@ -394,6 +379,13 @@ export async function handleTestPatch(args: TestPatchToolArgs): Promise<ToolResu
         }
     }
 
+    let patchCode: ReturnType<typeof emitPatchCode> | { skipped: string } | undefined;
+    if (args.emitCode) {
+        patchCode = replaceStr == null ? { skipped: "replace required to emit a patch" }
+            : !verdict.startsWith("PASS") ? { skipped: `verdict is ${verdict}, fix the patch first` }
+                : emitPatchCode(rawFind, matchPattern, replaceStr, { group: args.group, noWarn: args.noWarn });
+    }
+
     let multiMatchResults: Array<{ id: string; matchWorks: boolean; matchedText?: string }> | undefined;
     if (!findUnique && moduleMatches.length > 1 && !unsafePattern) {
         multiMatchResults = moduleMatches.slice(0, LIMITS.TEST_PATCH.MULTI_MATCH_SLICE).map(m => {
@@ -414,10 +406,10 @@ export async function handleTestPatch(args: TestPatchToolArgs): Promise<ToolResu
         findModuleCount: moduleMatches.length,
         findModules: moduleMatches.slice(0, LIMITS.TEST_PATCH.MULTI_MATCH_SLICE),
         matchWorks,
-        matchedText,
-        matchContext,
-        captureGroups,
-        replacementPreview,
+        matchedText: outcome?.matchedText ?? null,
+        matchContext: outcome?.matchContext ?? null,
+        captureGroups: outcome?.captureGroups ?? 0,
+        replacementPreview: outcome?.replacementPreview ?? null,
         score,
         verdict,
         warnings: allWarnings.length ? allWarnings : undefined,
@@ -426,5 +418,57 @@ export async function handleTestPatch(args: TestPatchToolArgs): Promise<ToolResu
         nearbyAnchors: nearbyAnchors?.length ? nearbyAnchors : undefined,
         suggestedFinds,
         multiMatchResults,
+        patchCode,
+    };
+}
+
+const EDIT_FAILURES: Record<EditFailure, string> = {
+    unchanged: "excerpt already appears verbatim in the module, so there is nothing to patch",
+    notFound: "could not anchor the excerpt or insertAfter text in the module. Copy it from module.extract",
+    ambiguous: "the unchanged leading text occurs more than once in the module. Include more surrounding code",
+    tooFar: "the edit spans too much of the module. Narrow the excerpt to the changed region",
+};
+
+function pickFind(source: string) {
+    const finds = generateFinds(source, { hashToKey: h => u.getIntlKeyFromHash(h), limit: LIMITS.TEST_PATCH.SYNTH_FIND_CANDIDATES }).filter(f => !f.regex);
+    const canonByFind = new Map(finds.map(f => [f.find, canonicalizeMatch(f.find)]));
+    const counts = u.batchCountModuleMatches([...new Set(canonByFind.values())], 2);
+    return finds
+        .filter(f => (counts.get(canonByFind.get(f.find) ?? f.find)?.count ?? 0) === 1)
+        .map(f => ({ find: f.find, ...scoreAnchorConfidence({ durability: f.durability, moduleCount: 1, type: f.type, regex: false }) }))
+        .sort((a, b) => b.confidence - a.confidence);
+}
+
+async function handleSynthesize(args: TestPatchToolArgs): Promise<ToolResult> {
+    const { id, excerpt, insertAfter, snippet } = args;
+    if (!id) return u.missingArg("id");
+    if (excerpt == null && (insertAfter == null || snippet == null)) return { error: true, message: "excerpt (the edited code) or insertAfter + snippet required" };
+
+    const source = u.getModuleSource(id);
+    if (!source) return u.moduleNotFound(id);
+
+    const edit = excerpt != null ? locateEdit(source, excerpt) : locateInsertion(source, insertAfter!, snippet!);
+    if (typeof edit === "string") return { error: true, message: `Cannot synthesize: ${EDIT_FAILURES[edit]}`, reason: edit };
+
+    const synth = synthesizePatch(source, edit);
+    if (!synth) return { error: true, message: "No match around the edit is unique in this module, even with the widest context", editAt: u.snippet(source, edit.start, edit.end - edit.start, 60, 60) };
+
+    const finds = pickFind(source);
+    if (!finds.length) return { error: true, message: `No unique find in module ${id}. Use module.genFinds to pick one by hand`, match: `/${synth.match}/`, replace: synth.replace };
+
+    const [best, ...rest] = finds;
+    const result = await handleTestPatch({ find: best.find, match: `/${synth.match}/`, replace: synth.replace, emitCode: args.emitCode, group: args.group, noWarn: args.noWarn });
+    return {
+        ...result as object,
+        synthesized: {
+            findConfidence: best.confidence,
+            findBand: best.band,
+            alternativeFinds: rest.slice(0, LIMITS.TEST_PATCH.SYNTH_ALTERNATIVE_FINDS).map(f => f.find),
+            contextTokens: synth.contextTokens,
+            captures: synth.captures,
+            unresolvedIdents: synth.unresolvedIdents.length ? synth.unresolvedIdents : undefined,
+            exact: synth.exact,
+            note: "match is the smallest \\i-generalized context that is unique in the module. Minified names the new code reads are captured and reused as $n. unresolvedIdents are short names in the new code that could not be tied to surrounding code. Fine if the snippet declares them itself, otherwise they will break on the next build. exact false means the replacement does not reproduce the edit verbatim.",
+        },
     };
 }
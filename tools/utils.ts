@@ -14,6 +14,7 @@ import * as WebpackPatcher from "@webpack/patcher";
 
 import { recoverIntlKey } from "../finds/intlRecover";
 import { mergeValidated, serializeKeyMap, validatePersistedEntries } from "../finds/keyMapPersist";
+import { createNgramIndex, type NgramIndex } from "../finds/ngramIndex";
 import keyMapJson from "../map/key_map.json";
 import {
     ActiveTrace,
@@ -30,11 +31,12 @@ import {
     PluginPatch,
     PluginReplacement,
     ReactFiber,
+    ToolContext,
     ToolError,
     WebpackModule,
 } from "../types";
 import { factoryListeners, findStore, Flux, getFluxDispatcherInternal, i18n, plugins, wreq } from "../webpack";
-import { CACHE_TTL, createIntlHashBracketRegex, createIntlHashDotRegex, createIntlKeyPatternRegex, CSS_CLASS_RE, HOOK_EFFECT_FLAGS, INTL_DETECTION, LIMITS, REGEX_CACHE_MAX_SIZE, SANITIZE } from "./constants";
+import { CACHE_TTL, createIntlHashBracketRegex, createIntlHashDotRegex, createIntlKeyPatternRegex, CSS_CLASS_RE, HOOK_EFFECT_FLAGS, INTL_DETECTION, LIMITS, REGEX_CACHE_MAX_SIZE, SANITIZE, SOURCE_INDEX } from "./constants";
 
 export const mcpLogger = new Logger("mcp", "#d97756");
 
@@ -117,6 +119,54 @@ export function clearModuleSourceCache(): void {
     moduleSourceCache.clear();
 }
 
+let sourceIndex: NgramIndex | null = null;
+const unindexedIds = new Set<string>();
+const onFactoryRegistered = (_factory: unknown, id: PropertyKey) => { unindexedIds.add(String(id)); };
+
+function openSourceIndex(): NgramIndex {
+    if (!sourceIndex) {
+        sourceIndex = createNgramIndex(SOURCE_INDEX.BUCKET_BITS);
+        factoryListeners.add(onFactoryRegistered);
+        for (const id of getModuleIds()) unindexedIds.add(id);
+    }
+    return sourceIndex;
+}
+
+export async function warmSourceIndex(): Promise<number> {
+    const index = openSourceIndex();
+    let n = 0;
+    for (const id of unindexedIds) {
+        index.add(id, getModuleSource(id));
+        unindexedIds.delete(id);
+        if (++n % SOURCE_INDEX.WARM_CHUNK === 0) {
+            await new Promise(r => setTimeout(r, 0));
+            if (sourceIndex !== index) return 0;
+        }
+    }
+    return index.size;
+}
+
+export function reindexModules(ids: Iterable<string>): void {
+    for (const id of ids) {
+        moduleSourceCache.delete(id);
+        if (sourceIndex) unindexedIds.add(id);
+    }
+}
+
+export function clearSourceIndex(): void {
+    factoryListeners.delete(onFactoryRegistered);
+    sourceIndex = null;
+    unindexedIds.clear();
+}
+
+export function candidateModuleIds(needles: readonly string[]): string[] {
+    if (!needles.some(n => n.length >= 3)) return getModuleIds();
+    const index = openSourceIndex();
+    for (const id of unindexedIds) index.add(id, getModuleSource(id));
+    unindexedIds.clear();
+    return index.candidates(needles) ?? getModuleIds();
+}
+
 const MODULE_HEADER_RE = /^0,(?:function)?\(\w+,\w+,(\w+)\)/;
 const requireParam = (src: string) => MODULE_HEADER_RE.exec(src.slice(0, 40))?.[1];
 let depGraphCache: { forward: Map<string, string[]>; reverse: Map<string, string[]> } | null = null;
@@ -227,7 +277,7 @@ export function countModuleMatches(str: string, earlyExit = 10): number {
 
     let count = 0;
     const moduleIds: string[] = [];
-    const ids = getModuleIds();
+    const ids = candidateModuleIds([str]);
 
     for (let i = 0; i < ids.length && count < earlyExit; i++) {
         const source = getModuleSource(ids[i]);
@@ -262,18 +312,13 @@ export function batchCountModuleMatches(strings: string[], earlyExit = 10): Map<
 
     if (!toScan.length) return results;
 
-    const ids = getModuleIds();
-    const remaining = new Set(toScan);
-
-    for (let i = 0; i < ids.length && remaining.size; i++) {
-        const source = getModuleSource(ids[i]);
-        for (const str of remaining) {
-            if (source.includes(str)) {
-                const entry = results.get(str)!;
-                entry.count++;
-                if (entry.moduleIds.length < 5) entry.moduleIds.push(ids[i]);
-                if (entry.count >= earlyExit) remaining.delete(str);
-            }
+    for (const str of toScan) {
+        const entry = results.get(str)!;
+        const ids = candidateModuleIds([str]);
+        for (let i = 0; i < ids.length && entry.count < earlyExit; i++) {
+            if (!getModuleSource(ids[i]).includes(str)) continue;
+            entry.count++;
+            if (entry.moduleIds.length < 5) entry.moduleIds.push(ids[i]);
         }
     }
 
@@ -403,7 +448,9 @@ export function getIntlKeyFromHash(hash: string): string | null {
     return buildIntlHashToKeyMap().get(hash) ?? null;
 }
 
-export function recoverIntlKeys(recoverLimit: number, maxAttempts = 3000): { attempted: number; recovered: number; entries: Array<{ hash: string; key: string; message: string }> } {
+export const NO_TOOL_CONTEXT: ToolContext = { signal: new AbortController().signal, progress: () => Promise.resolve() };
+
+export async function recoverIntlKeys(recoverLimit: number, ctx: ToolContext = NO_TOOL_CONTEXT, maxAttempts = 3000): Promise<{ attempted: number; recovered: number; entries: Array<{ hash: string; key: string; message: string }> }> {
     const map = buildIntlHashToKeyMap();
     const locale = getLocaleMessages();
     const entries: Array<{ hash: string; key: string; message: string }> = [];
@@ -415,6 +462,7 @@ export function recoverIntlKeys(recoverLimit: number, maxAttempts = 3000): { att
         const message = extractIntlText(locale[hash]);
         if (!message) continue;
         attempted++;
+        await ctx.progress(attempted, undefined, `${entries.length} keys recovered`);
         const key = recoverIntlKey(hash, message, runtimeHashMessageKey);
         if (key) {
             map.set(hash, key);
@@ -426,9 +474,19 @@ export function recoverIntlKeys(recoverLimit: number, maxAttempts = 3000): { att
     return { attempted, recovered: entries.length, entries };
 }
 
-export function findModuleIds(predicate: (source: string, id: string) => boolean, limit: number): string[] {
+const SCAN_PROGRESS_STRIDE = 200;
+
+export async function scanModules(ctx: ToolContext, visit: (source: string, id: string) => boolean | void, contains: readonly string[] = []): Promise<void> {
+    const ids = candidateModuleIds(contains);
+    for (let i = 0; i < ids.length; i++) {
+        if (i % SCAN_PROGRESS_STRIDE === 0) await ctx.progress(i, ids.length, "modules scanned");
+        if (visit(getModuleSource(ids[i]), ids[i]) === false) return;
+    }
+}
+
+export function findModuleIds(predicate: (source: string, id: string) => boolean, limit: number, contains: readonly string[] = []): string[] {
     const results: string[] = [];
-    const ids = getModuleIds();
+    const ids = candidateModuleIds(contains);
     for (let i = 0; i < ids.length && results.length < limit; i++) {
         const source = getModuleSource(ids[i]);
         if (source && predicate(source, ids[i])) results.push(ids[i]);
@@ -513,6 +571,11 @@ export function getModulePatchedBy(id: PropertyKey): string[] {
     return [...(getFactoryPatchedBy(id) ?? [])];
 }
 
+export function addModulePatchedBy(id: PropertyKey, names: Iterable<string>): void {
+    const patchedBy = getFactoryPatchedBy(id);
+    if (patchedBy) for (const name of names) patchedBy.add(name);
+}
+
 export function getAllStoreNames(): string[] {
     return Flux.Store.getAll()
         .map(s => s.getName())
@@ -520,10 +583,16 @@ export function getAllStoreNames(): string[] {
         .sort();
 }
 
-export function withTimeout<T>(promise: Promise<T>, ms: number, toolName: string): Promise<T> {
+export function withTimeout<T>(run: (extend: () => void) => Promise<T>, ms: number, toolName: string, maxMs = ms): Promise<T> {
     return new Promise((resolve, reject) => {
-        const timer = setTimeout(() => reject(new Error(`${toolName} timed out after ${Math.round(ms / 1000)}s`)), ms);
-        promise.then(resolve, reject).finally(() => clearTimeout(timer));
+        const startedAt = Date.now();
+        const onTimeout = () => reject(new Error(`${toolName} timed out after ${Math.round((Date.now() - startedAt) / 1000)}s`));
+        let timer = setTimeout(onTimeout, ms);
+        const extend = () => {
+            clearTimeout(timer);
+            timer = setTimeout(onTimeout, Math.min(ms, startedAt + maxMs - Date.now()));
+        };
+        run(extend).then(resolve, reject).finally(() => clearTimeout(timer));
     });
 }
 
@@ -919,20 +988,22 @@ export interface CanonFindMatcher {
     test: (src: string) => boolean;
     canonical: string;
     isRegex: boolean;
+    needles: readonly string[];
 }
 
 export function canonFindMatcher(find: string | RegExp | undefined): CanonFindMatcher {
-    if (!find) return { test: () => false, canonical: "", isRegex: false };
+    if (!find) return { test: () => false, canonical: "", isRegex: false, needles: [] };
     if (find instanceof RegExp) {
         const r = canonicalizeMatch(find);
         return {
             test: (src: string) => { if (r.global) r.lastIndex = 0; return r.test(src); },
             canonical: r.source,
             isRegex: true,
+            needles: [],
         };
     }
     const s = canonicalizeMatch(find);
-    return { test: (src: string) => src.includes(s), canonical: s, isRegex: false };
+    return { test: (src: string) => src.includes(s), canonical: s, isRegex: false, needles: [s] };
 }
 
 export function getReplacements(patch: PluginPatch): PluginReplacement[] {
@@ -1063,16 +1134,18 @@ export function filterBySubstring<T>(items: readonly T[], query: string, key: (t
     return items.filter(item => key(item).toLowerCase().includes(lower));
 }
 
-export function rankedSuggestions(names: readonly string[], query: string, max: number): string[] {
+export function rankedSuggestions(names: readonly string[], query: string, max: number, matchWithin = false): string[] {
     const lower = query.toLowerCase();
     const starts: string[] = [];
     const contains: string[] = [];
+    const within: string[] = [];
     for (const name of names) {
         const nl = name.toLowerCase();
         if (nl.startsWith(lower)) starts.push(name);
         else if (nl.includes(lower)) contains.push(name);
+        else if (matchWithin && nl.length >= 3 && lower.includes(nl)) within.push(name);
     }
-    return [...starts, ...contains].slice(0, max);
+    return [...starts, ...contains, ...within].slice(0, max);
 }
 
 export function missingArg(name: string): { error: true; message: string } {
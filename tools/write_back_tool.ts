@@ -0,0 +1,50 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PluginNative } from "@utils/types";
+
+import { parseRegexArg } from "../finds/patchCode";
+import { applyPatchEntry, type WriteBackFailure, unifiedDiff } from "../finds/patchWriteBack";
+import { PatchToolArgs, ToolResult } from "../types";
+import { pluginSettings } from "../webpack";
+import { handleTestPatch } from "./test_patch_tool";
+import * as u from "./utils";
+
+const Native = VencordNative.pluginHelpers.mcp as PluginNative<typeof import("../native")>;
+
+const WRITE_BACK_FAILURES: Record<WriteBackFailure, string> = {
+    noPatchesArray: "no patches: [ ... ] array in the plugin source. Add an empty patches: [] to definePlugin first",
+    indexOutOfRange: "index is past the end of the patches array (overwrite needs an existing entry)",
+};
+
+export async function handleWriteBack(args: PatchToolArgs): Promise<ToolResult> {
+    const { pluginName, find, match, replace } = args;
+    if (!pluginName) return u.missingArg("pluginName");
+    if (!find) return u.missingArg("find");
+    if (!match) return u.missingArg("match");
+    if (replace == null) return u.missingArg("replace");
+
+    const root = pluginSettings.mcp?.checkoutRoot;
+    if (typeof root !== "string" || !root) return { error: true, message: "Set the mcp plugin's checkoutRoot setting to the absolute path of your Vencord or Equicord checkout" };
+
+    const file = await Native.readPluginSource(root, pluginName);
+    if (!file) return { error: true, message: `No index.ts(x) declaring name "${pluginName}" under src/userplugins, src/plugins or src/equicordplugins of ${root}` };
+
+    const edited = applyPatchEntry(file.text, { find, match: parseRegexArg(match) ?? match, replace, group: args.group, noWarn: args.noWarn }, args.index, args.overwrite);
+    if (typeof edited === "string") return { error: true, message: `Cannot write back: ${WRITE_BACK_FAILURES[edited]}`, path: file.path };
+
+    const test = await handleTestPatch({ find, match, replace });
+    const verdict = (test as { verdict?: string }).verdict ?? null;
+    const diff = unifiedDiff(file.text, edited.source, file.relPath);
+    const base = { path: file.path, index: edited.index, overwrite: !!args.overwrite, verdict, diff };
+
+    if (!args.confirm) return { ...base, written: false, note: "Nothing written yet. Review the diff and repeat the same call with confirm: true" };
+    if (!verdict?.startsWith("PASS")) return { error: true, message: `testPatch verdict is ${verdict ?? "an error"}, fix the patch before writing it`, ...base };
+
+    const result = await Native.writePluginSource(root, pluginName, file.text, edited.source);
+    if (!result.ok) return { error: true, message: `Write failed: ${result.reason}`, ...base };
+    return { ...base, written: true, note: "Rebuild the checkout and reload Discord to load the new patch" };
+}
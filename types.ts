@@ -6,6 +6,10 @@
 
 import type { PluginSettingDef } from "@utils/types";
 
+import type { TreeNode as FiberTreeNode } from "./finds/reactTreeDiff";
+import type { ShapeNode, ShapeOf } from "./finds/resultShape";
+import type { OUTPUT_SHAPES } from "./tools/outputSchemas";
+
 type JSONPrimitive = string | number | boolean | null;
 type JSONObject = { [key: string]: JSONValue };
 export type JSONValue = JSONPrimitive | JSONValue[] | JSONObject;
@@ -29,6 +33,11 @@ interface JSONSchema {
     required?: string[];
 }
 
+export interface OutputSchema extends ShapeNode {
+    readonly type: "object";
+    readonly anyOf?: readonly ShapeNode[];
+}
+
 export interface MCPRequest {
     jsonrpc: "2.0";
     id: number | string;
@@ -43,15 +52,61 @@ export interface MCPResponse {
     error?: { code: number; message: string; data?: JSONValue };
 }
 
+export interface MCPNotification {
+    jsonrpc: "2.0";
+    method: string;
+    params?: Record<string, JSONValue>;
+}
+
 export interface MCPTool {
     name: string;
     title?: string;
     description: string;
     inputSchema: JSONSchema;
-    outputSchema?: JSONSchema;
+    outputSchema?: OutputSchema;
     annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean; idempotentHint?: boolean; openWorldHint?: boolean };
 }
 
+export interface MCPResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface MCPResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+export interface MCPPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+
+export interface MCPPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+    role: "user" | "assistant";
+    content: { type: "text"; text: string };
+}
+
 export interface ToolCallResult {
     content: [{ type: "text"; text: string }];
     structuredContent?: Record<string, unknown>;
@@ -61,6 +116,7 @@ export interface ToolCallResult {
 export interface IPCMCPRequest {
     id: number;
     request: MCPRequest;
+    sessionId: string | null;
 }
 
 export interface TraceCapture {
@@ -90,6 +146,15 @@ export interface ModuleWatch extends TimedCapture {
     listener: ((factory: unknown) => void) | null;
 }
 
+export interface ReactSnapshot {
+    takenAt: number;
+    root: { selector?: string; componentName?: string; depth: number; includeProps: boolean };
+    rootName: string;
+    tree: FiberTreeNode | null;
+    nodeCount: number;
+    truncated: boolean;
+}
+
 export interface InterceptCapture {
     ts: number;
     args: unknown[];
@@ -118,8 +183,12 @@ export interface ServerStats {
     startedAt: number;
     success: number;
     timeouts: number;
+    cancelled: number;
+    hostRejected: number;
     pendingRequests?: number;
     queuedRequests?: number;
+    sessions?: number;
+    streams?: number;
     uptimeFormatted?: string | null;
 }
 
@@ -132,9 +201,20 @@ export interface SessionStats {
     toolCalls: number;
 }
 
+export interface ServerListenOptions {
+    port?: number;
+    socketPath?: string;
+}
+
+export interface ServerEndpoint {
+    url: string | null;
+    port: number | null;
+    socketPath: string | null;
+}
+
 export interface ServerStatus {
     running: boolean;
-    port: number;
+    endpoint: ServerEndpoint | null;
     stats: ServerStats;
 }
 
@@ -301,6 +381,7 @@ export type PluginOption = PluginSettingDef;
 
 export interface VencordPlugin {
     started?: boolean;
+    stop?(): void;
     required?: boolean;
     patches?: PluginPatch[];
     options?: Record<string, PluginOption>;
@@ -315,12 +396,12 @@ export interface ToolError {
 
 export type ToolResult<T = Record<string, unknown>> = T | ToolError;
 
-type ModuleAction = "find" | "extract" | "exports" | "context" | "diff" | "functionAt" | "structure" | "stats" | "loadLazy" | "watch" | "watchGet" | "watchStop" | "suggest" | "annotate" | "css" | "explain" | "genFinds" | "fingerprint";
+type ModuleAction = "find" | "extract" | "exports" | "context" | "diff" | "functionAt" | "structure" | "stats" | "loadLazy" | "watch" | "watchGet" | "watchStop" | "suggest" | "annotate" | "css" | "explain" | "genFinds" | "fingerprint" | "buildDelta" | "exportSnapshot";
 type StoreAction = "find" | "list" | "state" | "call" | "snapshot" | "links";
 type IntlAction = "hash" | "reverse" | "search" | "scan" | "targets" | "recover" | "clearCache";
 type FluxToolAction = "events" | "dispatch" | "listeners" | "graph" | "producers" | "chain";
 type GraphAction = "imports" | "importedBy" | "path" | "neighborhood" | "exports" | "usedBy";
-type PatchAction = "unique" | "analyze" | "plugin" | "lint" | "finds" | "conflicts" | "overlaps" | "diff" | "broken" | "suggestFix" | "verifyApplied";
+type PatchAction = "unique" | "analyze" | "plugin" | "lint" | "finds" | "conflicts" | "overlaps" | "diff" | "broken" | "suggestFix" | "migrate" | "writeBack" | "obsolete" | "verifyApplied" | "history" | "hotApply" | "hotRevert";
 
 type FinderType = "byProps" | "byCode" | "store" | "componentByCode" | "exportedComponent" | "cssClasses" | "byClassNames";
 
@@ -335,23 +416,56 @@ export interface FinderResult extends FinderSpec {
     exportType?: string;
     error?: string;
 }
-type ReactAction = "query" | "styles" | "tree" | "path" | "fiber" | "props" | "hooks" | "contexts" | "find" | "state" | "source";
+type ReactAction = "query" | "styles" | "tree" | "path" | "fiber" | "props" | "hooks" | "contexts" | "find" | "state" | "source" | "snapshot" | "diff";
 type DiscordAction = "orient" | "context" | "api" | "snowflake" | "endpoints" | "common" | "enum" | "constants" | "tokens" | "buildInfo" | "experiments";
 type TraceAction = "start" | "get" | "stop" | "store";
 type InterceptAction = "set" | "get" | "stop";
 type PluginAction = "list" | "enable" | "disable" | "toggle" | "settings" | "setSetting";
 
+type ActionShapes<A extends string> = Readonly<Record<A, ShapeNode>>;
+
+export interface OutputShapeMap {
+    module: ActionShapes<ModuleAction>;
+    store: ActionShapes<StoreAction>;
+    intl: ActionShapes<IntlAction>;
+    flux: ActionShapes<FluxToolAction>;
+    patch: ActionShapes<PatchAction>;
+    react: ActionShapes<ReactAction>;
+    discord: ActionShapes<DiscordAction>;
+    plugin: ActionShapes<PluginAction>;
+    search: ActionShapes<"default">;
+    graph: ActionShapes<GraphAction>;
+    resolve: ActionShapes<"default">;
+    testPatch: ActionShapes<"default" | "synthesize">;
+    trace: ActionShapes<TraceAction>;
+    intercept: ActionShapes<InterceptAction>;
+    console: ActionShapes<"recent" | "clear" | "stats">;
+    batch: ActionShapes<"default">;
+    reloadDiscord: ActionShapes<"default">;
+}
+
+type OutputShapes = typeof OUTPUT_SHAPES;
+
+export type ActionResult<T extends keyof OutputShapes, A extends keyof OutputShapes[T]> = ShapeOf<OutputShapes[T][A]>;
+export type GenFindsResult = ActionResult<"module", "genFinds">;
+export type ExplainResult = ActionResult<"module", "explain">;
+export type VerifyAppliedResult = ActionResult<"patch", "verifyApplied">;
+
 interface ToolArgsBase<A> {
     action?: A;
     limit?: number;
 }
 
+interface PageArgs {
+    cursor?: string;
+}
+
 interface CaptureWindowArgs {
     duration?: number;
     maxCaptures?: number;
 }
 
-export interface ModuleToolArgs extends ToolArgsBase<ModuleAction>, CaptureWindowArgs {
+export interface ModuleToolArgs extends ToolArgsBase<ModuleAction>, CaptureWindowArgs, PageArgs {
     id?: string;
     props?: string[];
     code?: string[];
@@ -369,22 +483,23 @@ export interface ModuleToolArgs extends ToolArgsBase<ModuleAction>, CaptureWindo
     watchId?: number;
     minScore?: number;
     requireUnique?: boolean;
+    build?: string;
 }
 
-export interface StoreToolArgs extends ToolArgsBase<StoreAction> {
+export interface StoreToolArgs extends ToolArgsBase<StoreAction>, PageArgs {
     name?: string;
     method?: string;
     args?: unknown[];
 }
 
-export interface IntlToolArgs extends ToolArgsBase<IntlAction> {
+export interface IntlToolArgs extends ToolArgsBase<IntlAction>, PageArgs {
     key?: string;
     hash?: string;
     query?: string;
     moduleId?: string;
 }
 
-export interface FluxToolArgs extends ToolArgsBase<FluxToolAction> {
+export interface FluxToolArgs extends ToolArgsBase<FluxToolAction>, PageArgs {
     event?: string;
     type?: string;
     store?: string;
@@ -403,13 +518,21 @@ export interface ResolveToolArgs {
     limit?: number;
 }
 
-export interface PatchToolArgs extends ToolArgsBase<PatchAction> {
+export interface PatchToolArgs extends ToolArgsBase<PatchAction>, PageArgs {
     find?: string;
     match?: string;
     replace?: string;
     str?: string;
     id?: string;
     pluginName?: string;
+    build?: string;
+    emitCode?: boolean;
+    group?: boolean;
+    noWarn?: boolean;
+    index?: number;
+    overwrite?: boolean;
+    confirm?: boolean;
+    refresh?: boolean;
     showNoMatch?: boolean;
     showMultiMatch?: boolean;
     showValid?: boolean;
@@ -426,9 +549,11 @@ export interface ReactToolArgs extends ToolArgsBase<ReactAction> {
     direction?: "up" | "down";
     includeProps?: boolean;
     breadth?: number;
+    id?: number;
+    compareTo?: number;
 }
 
-export interface ConsoleToolArgs {
+export interface ConsoleToolArgs extends PageArgs {
     action?: "recent" | "clear" | "stats";
     level?: "error" | "warn";
     limit?: number;
@@ -458,14 +583,20 @@ export interface InterceptToolArgs extends CaptureWindowArgs {
     exportKey?: string;
 }
 
-export interface SearchToolArgs {
+export interface SearchToolArgs extends PageArgs {
     limit?: number;
     pattern?: string;
     patterns?: string[];
     regex?: boolean;
 }
 
-export type TestPatchToolArgs = Pick<PatchToolArgs, "find" | "match" | "replace">;
+export interface TestPatchToolArgs extends Pick<PatchToolArgs, "find" | "match" | "replace" | "emitCode" | "group" | "noWarn"> {
+    action?: "synthesize";
+    id?: string;
+    excerpt?: string;
+    insertAfter?: string;
+    snippet?: string;
+}
 
 export interface PluginToolArgs {
     action?: PluginAction;
@@ -484,6 +615,12 @@ export interface InitializeParams {
 export interface ToolCallParams {
     name: string;
     arguments?: Record<string, JSONValue>;
+    _meta?: { progressToken?: string | number };
+}
+
+export interface ToolContext {
+    signal: AbortSignal;
+    progress(done: number, total?: number, message?: string): Promise<void>;
 }
 
 export interface FoundComponent {